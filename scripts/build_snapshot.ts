@@ -0,0 +1,65 @@
+import { mkdir, writeFile } from "fs/promises";
+import { dirname, resolve } from "path";
+
+import { loadConfig } from "../src/config/load_config.js";
+import type { Config } from "../src/config/settings.js";
+import { parseComponentsFromLlmsTxt } from "../src/tools/starwind_add_tool.js";
+import { DOC_PAGE_PATHS, getMarkdownUrl } from "../src/tools/starwind_docs_tool.js";
+import { fetchText } from "../src/utils/http_client.js";
+import type { Snapshot } from "../src/utils/snapshot.js";
+
+// Next to the compiled server, where --offline looks for it by default
+const DEFAULT_OUTPUT = "dist/snapshot.json";
+
+async function fetchDocument(url: string, config: Config): Promise<string> {
+  const result = await fetchText(url, config.network);
+  if (result.notModified) throw new Error(`Unexpected 304 for ${url}`);
+  return result.body;
+}
+
+async function buildSnapshot() {
+  // Same flags and env vars as the server, e.g. --docs-base-url or --snapshot <output path>
+  const config = loadConfig();
+  const output = resolve(config.offline.snapshot ?? DEFAULT_OUTPUT);
+  const llmsUrl = `${config.docs.baseUrl}/llms.txt`;
+  const documents: Record<string, string> = {};
+
+  // A snapshot without these is useless, so any failure aborts the build
+  for (const url of [llmsUrl, `${config.docs.baseUrl}/llms-full.txt`, config.pro.manifestUrl]) {
+    documents[url] = await fetchDocument(url, config);
+  }
+
+  // Individual pages fall back to llms.txt when missing, so skip the ones that fail
+  const topics = [
+    ...Object.keys(DOC_PAGE_PATHS),
+    ...parseComponentsFromLlmsTxt(documents[llmsUrl]),
+  ];
+  const pageUrls = new Set(topics.map((topic) => getMarkdownUrl(topic, config.docs.baseUrl)));
+  const skipped: string[] = [];
+  for (const url of pageUrls) {
+    try {
+      documents[url] = await fetchDocument(url, config);
+    } catch (error) {
+      skipped.push(url);
+      console.warn(
+        `⚠️  Skipping ${url}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  const snapshot: Snapshot = { createdAt: new Date().toISOString(), documents };
+  await mkdir(dirname(output), { recursive: true });
+  await writeFile(output, JSON.stringify(snapshot));
+
+  console.log(
+    `✅ Wrote ${Object.keys(documents).length} documents to ${output} (${skipped.length} skipped)`,
+  );
+}
+
+buildSnapshot().catch((error) => {
+  console.error(
+    "❌ Error building offline snapshot:",
+    error instanceof Error ? error.message : String(error),
+  );
+  process.exit(1);
+});
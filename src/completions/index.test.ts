@@ -0,0 +1,170 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { DEFAULT_CONFIG } from "../config/settings";
+import { DEFAULT_TOOL_CONTEXT } from "../tools/define_tool";
+import { resetProBlocksToolState } from "../tools/search_pro_blocks_tool";
+import { resetAddToolState } from "../tools/starwind_add_tool";
+import { setupCompletions } from "./index";
+import { completeProCategory } from "./providers";
+
+const LLMS_TXT = `# Starwind UI
+
+- [Button](https://starwind.dev/docs/components/button)
+- [Button Group](https://starwind.dev/docs/components/button-group)
+- [Tabs](https://starwind.dev/docs/components/tabs)
+- [Theme Toggle](https://starwind.dev/docs/components/theme-toggle)
+`;
+
+const block = (id: string, categories: string[]) => ({
+  id,
+  name: id,
+  description: "",
+  categories,
+  keywords: [],
+  plan: "free",
+  installCommand: `npx starwind@latest add @starwind-pro/${id}`,
+  previewUrl: `/blocks/${id}`,
+});
+
+const MANIFEST = {
+  $schema: "https://pro.starwind.dev/schema.json",
+  name: "starwind-pro",
+  version: "1.0.0",
+  generatedAt: "2026-01-01T00:00:00.000Z",
+  baseUrl: "https://pro.starwind.dev",
+  totalBlocks: 3,
+  categories: ["hero", "footer", "pricing"],
+  blocks: [block("hero-01", ["hero"]), block("hero-02", ["hero"]), block("footer-01", ["footer"])],
+};
+
+describe("setupCompletions", () => {
+  let client: Client;
+
+  beforeEach(async () => {
+    resetAddToolState();
+    resetProBlocksToolState();
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (url: string) => {
+        if (url === "https://starwind.dev/llms.txt") return new Response(LLMS_TXT);
+        if (url === "https://pro.starwind.dev/r/manifest.json") return Response.json(MANIFEST);
+        return new Response("Not Found", { status: 404 });
+      }),
+    );
+
+    const server = new Server(
+      { name: "test", version: "0.0.0" },
+      { capabilities: { completions: {}, prompts: {}, resources: {} } },
+    );
+    setupCompletions(server);
+    client = new Client({ name: "test-client", version: "0.0.0" });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    vi.unstubAllGlobals();
+  });
+
+  const completeTemplate = (
+    uri: string,
+    name: string,
+    value: string,
+    context?: Record<string, string>,
+  ) =>
+    client.complete({
+      ref: { type: "ref/resource", uri },
+      argument: { name, value },
+      context: context ? { arguments: context } : undefined,
+    });
+
+  it("should complete component slugs from llms.txt", async () => {
+    const result = await completeTemplate("starwind://components/{slug}", "slug", "but");
+
+    expect(result.completion.values).toEqual(["button", "button-group"]);
+    expect(result.completion.hasMore).toBe(false);
+  });
+
+  it("should complete docs topics from guide pages and components", async () => {
+    const result = await completeTemplate("starwind://docs/{topic}", "topic", "them");
+
+    expect(result.completion.values).toEqual(["themes", "theming", "theme-toggle"]);
+  });
+
+  it("should complete Pro categories from the manifest", async () => {
+    const result = await completeTemplate("starwind-pro://categories/{category}", "category", "pr");
+
+    expect(result.completion.values).toEqual(["pricing"]);
+  });
+
+  it("should complete Pro block ids, narrowed by category context", async () => {
+    const all = await completeTemplate("starwind-pro://blocks/{id}", "id", "");
+    const heroes = await completeTemplate("starwind-pro://blocks/{id}", "id", "", {
+      category: "hero",
+    });
+
+    expect(all.completion.values).toHaveLength(3);
+    expect(heroes.completion.values).toEqual(["hero-01", "hero-02"]);
+  });
+
+  it("should complete the last entry of the landing page sections", async () => {
+    const result = await client.complete({
+      ref: { type: "ref/prompt", name: "build_landing_page" },
+      argument: { name: "sections", value: "hero, fo" },
+    });
+
+    expect(result.completion.values).toEqual(["hero, footer"]);
+  });
+
+  it("should complete fixed prompt argument values", async () => {
+    const result = await client.complete({
+      ref: { type: "ref/prompt", name: "theme_project" },
+      argument: { name: "darkMode", value: "t" },
+    });
+
+    expect(result.completion.values).toEqual(["true"]);
+  });
+
+  it("should return no values for arguments without a provider", async () => {
+    const result = await client.complete({
+      ref: { type: "ref/prompt", name: "add_form" },
+      argument: { name: "fields", value: "na" },
+    });
+
+    expect(result.completion.values).toEqual([]);
+  });
+
+  it("should return no values when the manifest can't be loaded", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => new Response("error", { status: 500 })),
+    );
+
+    const result = await completeTemplate("starwind-pro://categories/{category}", "category", "h");
+
+    expect(result.completion.values).toEqual([]);
+  });
+
+  it("should not complete Pro values when search_starwind_pro_blocks is disabled", async () => {
+    const context = {
+      ...DEFAULT_TOOL_CONTEXT,
+      config: { ...DEFAULT_CONFIG, tools: { deny: ["search_starwind_pro_blocks"] } },
+    };
+
+    expect(await completeProCategory("h", context)).toEqual([]);
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it("should reject unknown prompts", async () => {
+    await expect(
+      client.complete({
+        ref: { type: "ref/prompt", name: "nope" },
+        argument: { name: "x", value: "" },
+      }),
+    ).rejects.toThrow("not found");
+  });
+});
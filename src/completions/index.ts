@@ -0,0 +1,63 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { CompleteRequestSchema, ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+
+import { prompts } from "../prompts/index.js";
+import { getEnabledResourceTemplates } from "../resources/index.js";
+import { DEFAULT_TOOL_CONTEXT, type ToolContext } from "../tools/define_tool.js";
+import { logger } from "../utils/logger.js";
+import type { CompletionProvider } from "./providers.js";
+
+// Maximum number of values per completion response (protocol limit)
+const MAX_COMPLETIONS = 100;
+
+/**
+ * Set up argument completion for prompts and resource templates
+ *
+ * The protocol only supports completion for prompt and resource template arguments, so
+ * tool arguments are completed through the templates that mirror them:
+ * `starwind://docs/{topic}` (starwind_docs topic), `starwind://components/{slug}`
+ * (starwind_add components) and `starwind-pro://categories/{category}` (Pro block category).
+ *
+ * @param server - The MCP server instance
+ * @param context - Configuration and cache passed to the completion providers
+ */
+export function setupCompletions(
+  server: Server,
+  context: ToolContext = DEFAULT_TOOL_CONTEXT,
+): void {
+  server.setRequestHandler(CompleteRequestSchema, (request) =>
+    logger.runInSession(server, async () => {
+      const { ref, argument } = request.params;
+
+      let completions: Record<string, CompletionProvider> | undefined;
+      if (ref.type === "ref/prompt") {
+        const prompt = prompts.get(ref.name);
+        if (!prompt) {
+          throw new McpError(ErrorCode.InvalidParams, `Prompt '${ref.name}' not found`);
+        }
+        completions = prompt.completions;
+      } else {
+        const template = getEnabledResourceTemplates(context.config).find(
+          (t) => t.uriTemplate === ref.uri,
+        );
+        if (!template) {
+          throw new McpError(ErrorCode.InvalidParams, `Resource template '${ref.uri}' not found`);
+        }
+        completions = template.completions;
+      }
+
+      const provider = completions?.[argument.name];
+      const values = provider
+        ? await provider(argument.value, context, request.params.context?.arguments)
+        : [];
+
+      return {
+        completion: {
+          values: values.slice(0, MAX_COMPLETIONS),
+          total: values.length,
+          hasMore: values.length > MAX_COMPLETIONS,
+        },
+      };
+    }),
+  );
+}
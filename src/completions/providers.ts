@@ -0,0 +1,101 @@
+/**
+ * Completion Providers
+ * Suggestion sources for tool, prompt and resource template arguments
+ */
+
+import { isToolEnabled, type ToolContext } from "../tools/define_tool.js";
+import { getManifest, searchProBlocksTool } from "../tools/search_pro_blocks_tool.js";
+import { getAvailableComponents } from "../tools/starwind_add_tool.js";
+import { DOC_PAGE_PATHS } from "../tools/starwind_docs_tool.js";
+import { rankCompletions } from "../utils/fuzzy_match.js";
+
+/**
+ * Returns ranked suggestions for the value typed so far
+ * `args` holds the values of previously completed arguments, if the client sent them.
+ */
+export type CompletionProvider = (
+  value: string,
+  context: ToolContext,
+  args?: Record<string, string>,
+) => Promise<string[]>;
+
+/**
+ * Complete a component slug from the parsed llms.txt component list
+ */
+export const completeComponent: CompletionProvider = async (value, context) => {
+  const { components } = await getAvailableComponents(context);
+  return rankCompletions(components, value);
+};
+
+/**
+ * Complete a docs topic from known guide pages and components
+ */
+export const completeDocsTopic: CompletionProvider = async (value, context) => {
+  const { components } = await getAvailableComponents(context);
+  return rankCompletions([...Object.keys(DOC_PAGE_PATHS), ...components], value);
+};
+
+/**
+ * Complete a Pro block category from the manifest
+ * Returns no suggestions if the manifest can't be loaded or search_starwind_pro_blocks is disabled
+ */
+export const completeProCategory: CompletionProvider = async (value, context) => {
+  if (!isToolEnabled(context.config, searchProBlocksTool.name)) return [];
+  try {
+    const { manifest } = await getManifest(context);
+    return rankCompletions(manifest.categories, value);
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Complete a Pro block id from the manifest, narrowed by a previously completed category if present
+ * Returns no suggestions if the manifest can't be loaded or search_starwind_pro_blocks is disabled
+ */
+export const completeProBlockId: CompletionProvider = async (value, context, args) => {
+  if (!isToolEnabled(context.config, searchProBlocksTool.name)) return [];
+  try {
+    const { manifest } = await getManifest(context);
+    const category = args?.category?.toLowerCase();
+    const blocks = category
+      ? manifest.blocks.filter((block) =>
+          block.categories.some((c) => c.toLowerCase() === category),
+        )
+      : manifest.blocks;
+    return rankCompletions(
+      blocks.map((block) => block.id),
+      value,
+    );
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Complete from a fixed list of values
+ */
+export function completeFromList(values: string[]): CompletionProvider {
+  return async (value) => rankCompletions(values, value);
+}
+
+/**
+ * Complete the last entry of a comma-separated list, keeping the entries before it
+ *
+ * @example
+ * ```ts
+ * // "hero, pri" -> ["hero, pricing"]
+ * const completeSections = completeCommaSeparated(completeProCategory);
+ * ```
+ */
+export function completeCommaSeparated(provider: CompletionProvider): CompletionProvider {
+  return async (value, context, args) => {
+    const parts = value.split(",");
+    const last = parts.pop() ?? "";
+    const previous = parts.map((part) => part.trim()).filter(Boolean);
+    const suggestions = await provider(last.trim(), context, args);
+    return suggestions
+      .filter((suggestion) => !previous.includes(suggestion))
+      .map((suggestion) => [...previous, suggestion].join(", "));
+  };
+}
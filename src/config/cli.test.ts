@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+
+import { parseCliArgs } from "./cli";
+
+describe("parseCliArgs", () => {
+  it("should leave options that weren't passed unset", () => {
+    const result = parseCliArgs([]);
+
+    expect(result.transport).toBeUndefined();
+    expect(result.port).toBeUndefined();
+    expect(result.host).toBeUndefined();
+    expect(result.logLevel).toBeUndefined();
+    expect(result.logFile).toBeUndefined();
+  });
+
+  it("should parse the http transport with port and host", () => {
+    const result = parseCliArgs(["--transport", "http", "--port", "8080", "--host", "0.0.0.0"]);
+
+    expect(result.transport).toBe("http");
+    expect(result.port).toBe(8080);
+    expect(result.host).toBe("0.0.0.0");
+  });
+
+  it("should support --flag=value syntax", () => {
+    const result = parseCliArgs(["--transport=http", "--port=4000"]);
+
+    expect(result.transport).toBe("http");
+    expect(result.port).toBe(4000);
+  });
+
+  it("should reject unknown transports", () => {
+    expect(() => parseCliArgs(["--transport", "websocket"])).toThrow("Invalid --transport");
+  });
+
+  it("should reject invalid ports", () => {
+    expect(() => parseCliArgs(["--port", "abc"])).toThrow("Invalid --port");
+    expect(() => parseCliArgs(["--port", "70000"])).toThrow("Invalid --port");
+  });
+
+  it("should parse logging options", () => {
+    const result = parseCliArgs(["--log-level", "debug", "--log-file", "/tmp/starwind.log"]);
+
+    expect(result.logLevel).toBe("debug");
+    expect(result.logFile).toBe("/tmp/starwind.log");
+  });
+
+  it("should reject invalid log levels", () => {
+    expect(() => parseCliArgs(["--log-level", "verbose"])).toThrow("Invalid --log-level");
+  });
+
+  it("should parse the config file path and config overrides", () => {
+    const result = parseCliArgs([
+      "--config",
+      "./team.config.json",
+      "--docs-base-url",
+      "https://staging.starwind.dev",
+      "--pro-manifest-url",
+      "https://staging.starwind.dev/r/manifest.json",
+      "--package-manager",
+      "pnpm",
+    ]);
+
+    expect(result.config).toBe("./team.config.json");
+    expect(result.docsBaseUrl).toBe("https://staging.starwind.dev");
+    expect(result.proManifestUrl).toBe("https://staging.starwind.dev/r/manifest.json");
+    expect(result.packageManager).toBe("pnpm");
+  });
+
+  it("should split comma-separated tool lists", () => {
+    const result = parseCliArgs([
+      "--tools",
+      "starwind_docs, starwind_add",
+      "--disable-tools=starwind_init",
+    ]);
+
+    expect(result.tools).toEqual(["starwind_docs", "starwind_add"]);
+    expect(result.disableTools).toEqual(["starwind_init"]);
+  });
+
+  it("should parse cache options", () => {
+    const result = parseCliArgs(["--cache-dir", "/tmp/starwind", "--no-cache", "--prefetch"]);
+
+    expect(result.cacheDir).toBe("/tmp/starwind");
+    expect(result.noCache).toBe(true);
+    expect(result.prefetch).toBe(true);
+  });
+
+  it("should parse proxy options", () => {
+    const result = parseCliArgs(["--proxy", "http://proxy.corp:8080", "--ca-files", "a.pem,b.pem"]);
+
+    expect(result.proxy).toBe("http://proxy.corp:8080");
+    expect(result.caFiles).toEqual(["a.pem", "b.pem"]);
+  });
+
+  it("should reject unknown flags", () => {
+    expect(() => parseCliArgs(["--verbose"])).toThrow();
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Command line argument parsing for the MCP server
+ */
+import type { LoggingLevel } from "@modelcontextprotocol/sdk/types.js";
+import { parseArgs } from "util";
+
+import { isLoggingLevel } from "../utils/logger.js";
+import type { TransportType } from "./settings.js";
+
+/**
+ * Options parsed from the command line
+ * Only flags that were passed are set, so they can be layered over the other config sources.
+ */
+export interface CliOptions {
+  /** Path to a config file (defaults to starwind-mcp.config.json in the working directory) */
+  config?: string;
+  /** Transport to serve the MCP server over */
+  transport?: TransportType;
+  /** Port for the HTTP transport */
+  port?: number;
+  /** Host interface for the HTTP transport */
+  host?: string;
+  /** Browser origins allowed to connect besides localhost */
+  allowedOrigins?: string[];
+  /** Minimum level for stderr and log file output */
+  logLevel?: LoggingLevel;
+  /** File to append log messages to */
+  logFile?: string;
+  /** Base URL of the docs site */
+  docsBaseUrl?: string;
+  /** URL of the Starwind Pro block manifest */
+  proManifestUrl?: string;
+  /** Package manager to use when none is specified or detected */
+  packageManager?: string;
+  /** Proxy for all requests */
+  proxy?: string;
+  /** PEM files with extra CA certificates to trust */
+  caFiles?: string[];
+  /** Directory for the disk cache */
+  cacheDir?: string;
+  /** Keep the response cache in memory only */
+  noCache?: boolean;
+  /** Fetch llms.txt and the Pro manifest in the background at startup */
+  prefetch?: boolean;
+  /** Serve everything from the offline snapshot */
+  offline?: boolean;
+  /** Offline snapshot file */
+  snapshot?: string;
+  /** Only expose these tools */
+  tools?: string[];
+  /** Never expose these tools */
+  disableTools?: string[];
+}
+
+const TRANSPORT_TYPES: TransportType[] = ["stdio", "http"];
+
+/**
+ * Split a comma-separated flag value into its trimmed, non-empty entries
+ */
+export function parseList(value: string): string[] {
+  return value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Parses the server command line arguments
+ *
+ * @param argv - Arguments to parse (defaults to process.argv without the node and script paths)
+ * @returns The options that were passed
+ *
+ * @example
+ * ```ts
+ * parseCliArgs(["--transport", "http", "--port", "8080"]);
+ * // { transport: "http", port: 8080 }
+ * ```
+ */
+export function parseCliArgs(argv: string[] = process.argv.slice(2)): CliOptions {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      config: { type: "string" },
+      transport: { type: "string" },
+      port: { type: "string" },
+      host: { type: "string" },
+      "allowed-origins": { type: "string" },
+      "log-level": { type: "string" },
+      "log-file": { type: "string" },
+      "docs-base-url": { type: "string" },
+      "pro-manifest-url": { type: "string" },
+      "package-manager": { type: "string" },
+      proxy: { type: "string" },
+      "ca-files": { type: "string" },
+      "cache-dir": { type: "string" },
+      "no-cache": { type: "boolean" },
+      prefetch: { type: "boolean" },
+      offline: { type: "boolean" },
+      snapshot: { type: "string" },
+      tools: { type: "string" },
+      "disable-tools": { type: "string" },
+    },
+    strict: true,
+  });
+
+  const transport = values.transport as TransportType | undefined;
+  if (transport !== undefined && !TRANSPORT_TYPES.includes(transport)) {
+    throw new Error(
+      `Invalid --transport '${values.transport}'. Expected one of: ${TRANSPORT_TYPES.join(", ")}`,
+    );
+  }
+
+  let port: number | undefined;
+  if (values.port !== undefined) {
+    port = Number(values.port);
+    if (!Number.isInteger(port) || port < 0 || port > 65535) {
+      throw new Error(`Invalid --port '${values.port}'. Expected an integer between 0 and 65535`);
+    }
+  }
+
+  const logLevel = values["log-level"];
+  if (logLevel !== undefined && !isLoggingLevel(logLevel)) {
+    throw new Error(`Invalid --log-level '${logLevel}'`);
+  }
+
+  return {
+    config: values.config,
+    transport,
+    port,
+    host: values.host,
+    allowedOrigins:
+      values["allowed-origins"] !== undefined ? parseList(values["allowed-origins"]) : undefined,
+    logLevel,
+    logFile: values["log-file"],
+    docsBaseUrl: values["docs-base-url"],
+    proManifestUrl: values["pro-manifest-url"],
+    packageManager: values["package-manager"],
+    proxy: values.proxy,
+    caFiles: values["ca-files"] !== undefined ? parseList(values["ca-files"]) : undefined,
+    cacheDir: values["cache-dir"],
+    noCache: values["no-cache"],
+    prefetch: values.prefetch,
+    offline: values.offline,
+    snapshot: values.snapshot,
+    tools: values.tools !== undefined ? parseList(values.tools) : undefined,
+    disableTools:
+      values["disable-tools"] !== undefined ? parseList(values["disable-tools"]) : undefined,
+  };
+}
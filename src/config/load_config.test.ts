@@ -0,0 +1,168 @@
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { CONFIG_FILE_NAME, ConfigError, loadConfig } from "./load_config";
+import { DEFAULT_CONFIG } from "./settings";
+
+describe("loadConfig", () => {
+  let cwd: string;
+
+  beforeEach(() => {
+    cwd = mkdtempSync(join(tmpdir(), "starwind-mcp-config-"));
+  });
+
+  afterEach(() => {
+    rmSync(cwd, { recursive: true, force: true });
+  });
+
+  function writeConfig(config: unknown, name = CONFIG_FILE_NAME) {
+    writeFileSync(join(cwd, name), JSON.stringify(config));
+  }
+
+  it("should return the defaults when nothing is configured", () => {
+    expect(loadConfig({ argv: [], env: {}, cwd })).toEqual(DEFAULT_CONFIG);
+  });
+
+  it("should read the config file from the working directory", () => {
+    writeConfig({ docs: { baseUrl: "https://staging.starwind.dev/", rateLimit: 50 } });
+
+    const config = loadConfig({ argv: [], env: {}, cwd });
+
+    expect(config.docs.baseUrl).toBe("https://staging.starwind.dev");
+    expect(config.docs.rateLimit).toBe(50);
+    // Unset keys keep their defaults
+    expect(config.docs.cacheTtl).toEqual(DEFAULT_CONFIG.docs.cacheTtl);
+    expect(config.pro.manifestUrl).toBe(DEFAULT_CONFIG.pro.manifestUrl);
+  });
+
+  it("should layer env vars over the config file and CLI flags over env vars", () => {
+    writeConfig({ transport: "http", http: { port: 4000 }, pro: { rateLimit: 5 } });
+
+    const config = loadConfig({
+      argv: ["--port", "6000"],
+      env: { STARWIND_MCP_PORT: "5000", STARWIND_MCP_PRO_RATE_LIMIT: "20" },
+      cwd,
+    });
+
+    expect(config.transport).toBe("http");
+    expect(config.http.port).toBe(6000);
+    expect(config.pro.rateLimit).toBe(20);
+  });
+
+  it("should parse comma-separated tool lists from env vars and flags", () => {
+    const config = loadConfig({
+      argv: ["--disable-tools", "starwind_init"],
+      env: { STARWIND_MCP_TOOLS: "starwind_docs, starwind_add,starwind_init" },
+      cwd,
+    });
+
+    expect(config.tools).toEqual({
+      allow: ["starwind_docs", "starwind_add", "starwind_init"],
+      deny: ["starwind_init"],
+    });
+  });
+
+  it("should configure the response cache from env vars and flags", () => {
+    expect(loadConfig({ argv: [], env: { STARWIND_MCP_CACHE: "off" }, cwd }).cache.enabled).toBe(
+      false,
+    );
+
+    const config = loadConfig({
+      argv: ["--no-cache", "--cache-dir", "/tmp/starwind", "--prefetch"],
+      env: { STARWIND_MCP_CACHE: "true", STARWIND_MCP_CACHE_MAX_SIZE_MB: "10" },
+      cwd,
+    });
+
+    expect(config.cache).toEqual({
+      enabled: false,
+      dir: "/tmp/starwind",
+      maxSizeMb: 10,
+      prefetch: true,
+    });
+  });
+
+  it("should enable offline mode from env vars and flags", () => {
+    expect(loadConfig({ argv: ["--offline"], env: {}, cwd }).offline).toEqual({ enabled: true });
+
+    const config = loadConfig({
+      argv: [],
+      env: { STARWIND_MCP_OFFLINE: "1", STARWIND_MCP_SNAPSHOT: "./snapshot.json" },
+      cwd,
+    });
+
+    expect(config.offline).toEqual({ enabled: true, snapshot: "./snapshot.json" });
+  });
+
+  it("should configure the proxy and CA files from env vars and flags", () => {
+    const config = loadConfig({
+      argv: ["--proxy", "http://proxy.corp:8080"],
+      env: {
+        STARWIND_MCP_PROXY: "http://ignored:3128",
+        STARWIND_MCP_NO_PROXY: "localhost, .internal",
+        STARWIND_MCP_CA_FILES: "/etc/ssl/proxy-ca.pem",
+      },
+      cwd,
+    });
+
+    expect(config.network).toMatchObject({
+      proxy: "http://proxy.corp:8080",
+      noProxy: ["localhost", ".internal"],
+      caFiles: ["/etc/ssl/proxy-ca.pem"],
+    });
+  });
+
+  it("should read the config file from an explicit path", () => {
+    writeConfig({ packageManager: { default: "yarn" } }, "team.json");
+
+    expect(loadConfig({ argv: ["--config", "team.json"], env: {}, cwd }).packageManager).toEqual({
+      default: "yarn",
+    });
+    expect(
+      loadConfig({ argv: [], env: { STARWIND_MCP_CONFIG: "team.json" }, cwd }).packageManager,
+    ).toEqual({ default: "yarn" });
+  });
+
+  it("should fail when an explicit config file is missing", () => {
+    expect(() => loadConfig({ argv: ["--config", "missing.json"], env: {}, cwd })).toThrow(
+      "Config file not found",
+    );
+  });
+
+  it("should fail on malformed JSON", () => {
+    writeFileSync(join(cwd, CONFIG_FILE_NAME), "{ docs: ");
+
+    expect(() => loadConfig({ argv: [], env: {}, cwd })).toThrow(ConfigError);
+  });
+
+  it("should report every invalid value with its path", () => {
+    writeConfig({ docs: { baseUrl: "starwind.dev", rateLimit: 0 }, telemetry: true });
+
+    let error: unknown;
+    try {
+      loadConfig({ argv: [], env: { STARWIND_MCP_PACKAGE_MANAGER: "pip" }, cwd });
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(ConfigError);
+    const message = (error as Error).message;
+    expect(message).toContain("docs.baseUrl: must match");
+    expect(message).toContain("docs.rateLimit: must be >= 1");
+    expect(message).toContain("telemetry: is not a recognized property");
+    expect(message).toContain("packageManager.default: must be one of");
+  });
+
+  it("should report non-numeric env values", () => {
+    expect(() =>
+      loadConfig({ argv: [], env: { STARWIND_MCP_DOCS_RATE_LIMIT: "lots" }, cwd }),
+    ).toThrow("docs.rateLimit: expected integer, received string");
+  });
+
+  it("should surface invalid CLI flags as config errors", () => {
+    expect(() => loadConfig({ argv: ["--transport", "websocket"], env: {}, cwd })).toThrow(
+      ConfigError,
+    );
+  });
+});
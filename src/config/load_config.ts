@@ -0,0 +1,250 @@
+/**
+ * Layered configuration loading
+ * Resolves the server configuration from, in increasing order of precedence: built-in
+ * defaults, a `starwind-mcp.config.json` file, `STARWIND_MCP_*` environment variables and
+ * command line flags.
+ */
+import { existsSync, readFileSync } from "fs";
+import { resolve } from "path";
+
+import { validateSchema } from "../utils/json_schema.js";
+import { type CliOptions, parseCliArgs, parseList } from "./cli.js";
+import { type Config, CONFIG_SCHEMA, DEFAULT_CONFIG } from "./settings.js";
+
+/**
+ * Name of the config file looked up in the working directory
+ */
+export const CONFIG_FILE_NAME = "starwind-mcp.config.json";
+
+/**
+ * Sources to resolve the configuration from
+ */
+export interface ConfigSources {
+  /** Command line arguments (defaults to process.argv without the node and script paths) */
+  argv?: string[];
+  /** Environment variables (defaults to process.env) */
+  env?: Record<string, string | undefined>;
+  /** Directory to look for the config file in (defaults to process.cwd()) */
+  cwd?: string;
+}
+
+/**
+ * Thrown when the configuration can't be read or is invalid
+ */
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConfigError";
+  }
+}
+
+type ConfigLayer = Record<string, unknown>;
+
+/**
+ * Environment variables and the config paths they set
+ */
+const ENV_VARS: Record<string, { path: string; type: "string" | "number" | "boolean" | "list" }> = {
+  STARWIND_MCP_TRANSPORT: { path: "transport", type: "string" },
+  STARWIND_MCP_PORT: { path: "http.port", type: "number" },
+  STARWIND_MCP_HOST: { path: "http.host", type: "string" },
+  STARWIND_MCP_ALLOWED_ORIGINS: { path: "http.allowedOrigins", type: "list" },
+  STARWIND_MCP_LOG_LEVEL: { path: "logging.level", type: "string" },
+  STARWIND_MCP_LOG_FILE: { path: "logging.file", type: "string" },
+  STARWIND_MCP_TIMEOUT_MS: { path: "network.timeoutMs", type: "number" },
+  STARWIND_MCP_RETRIES: { path: "network.retries", type: "number" },
+  STARWIND_MCP_RATE_LIMIT_QUEUE_MS: { path: "network.rateLimitQueueMs", type: "number" },
+  STARWIND_MCP_PROXY: { path: "network.proxy", type: "string" },
+  STARWIND_MCP_NO_PROXY: { path: "network.noProxy", type: "list" },
+  STARWIND_MCP_CA_FILES: { path: "network.caFiles", type: "list" },
+  STARWIND_MCP_CACHE: { path: "cache.enabled", type: "boolean" },
+  STARWIND_MCP_CACHE_DIR: { path: "cache.dir", type: "string" },
+  STARWIND_MCP_CACHE_MAX_SIZE_MB: { path: "cache.maxSizeMb", type: "number" },
+  STARWIND_MCP_PREFETCH: { path: "cache.prefetch", type: "boolean" },
+  STARWIND_MCP_OFFLINE: { path: "offline.enabled", type: "boolean" },
+  STARWIND_MCP_SNAPSHOT: { path: "offline.snapshot", type: "string" },
+  STARWIND_MCP_DOCS_BASE_URL: { path: "docs.baseUrl", type: "string" },
+  STARWIND_MCP_DOCS_RATE_LIMIT: { path: "docs.rateLimit", type: "number" },
+  STARWIND_MCP_PRO_MANIFEST_URL: { path: "pro.manifestUrl", type: "string" },
+  STARWIND_MCP_PRO_RATE_LIMIT: { path: "pro.rateLimit", type: "number" },
+  STARWIND_MCP_PACKAGE_MANAGER: { path: "packageManager.default", type: "string" },
+  STARWIND_MCP_TOOLS: { path: "tools.allow", type: "list" },
+  STARWIND_MCP_DISABLED_TOOLS: { path: "tools.deny", type: "list" },
+};
+
+/**
+ * Accepted spellings of boolean environment variables
+ */
+const BOOLEAN_VALUES: Record<string, boolean> = {
+  true: true,
+  "1": true,
+  yes: true,
+  on: true,
+  false: false,
+  "0": false,
+  no: false,
+  off: false,
+};
+
+/**
+ * Command line options and the config paths they set
+ */
+const CLI_OPTIONS: Partial<Record<keyof CliOptions, string>> = {
+  transport: "transport",
+  port: "http.port",
+  host: "http.host",
+  allowedOrigins: "http.allowedOrigins",
+  logLevel: "logging.level",
+  logFile: "logging.file",
+  docsBaseUrl: "docs.baseUrl",
+  proManifestUrl: "pro.manifestUrl",
+  packageManager: "packageManager.default",
+  proxy: "network.proxy",
+  caFiles: "network.caFiles",
+  cacheDir: "cache.dir",
+  prefetch: "cache.prefetch",
+  offline: "offline.enabled",
+  snapshot: "offline.snapshot",
+  tools: "tools.allow",
+  disableTools: "tools.deny",
+};
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Set a value at a dotted path, creating intermediate objects
+ */
+function setPath(target: ConfigLayer, path: string, value: unknown): void {
+  const keys = path.split(".");
+  const last = keys.pop() as string;
+  let current = target;
+  for (const key of keys) {
+    if (!isPlainObject(current[key])) current[key] = {};
+    current = current[key] as ConfigLayer;
+  }
+  current[last] = value;
+}
+
+/**
+ * Recursively merge layers into a base, later layers winning and undefined values skipped
+ */
+function mergeLayers(base: ConfigLayer, ...layers: ConfigLayer[]): ConfigLayer {
+  const result: ConfigLayer = { ...base };
+  for (const layer of layers) {
+    for (const [key, value] of Object.entries(layer)) {
+      if (value === undefined) continue;
+      result[key] =
+        isPlainObject(value) && isPlainObject(result[key])
+          ? mergeLayers(result[key] as ConfigLayer, value)
+          : value;
+    }
+  }
+  return result;
+}
+
+/**
+ * Read the config file layer
+ * A missing file is only an error when its path was given explicitly.
+ */
+function readConfigFile(path: string, explicit: boolean): ConfigLayer {
+  if (!existsSync(path)) {
+    if (explicit) throw new ConfigError(`Config file not found: ${path}`);
+    return {};
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(path, "utf8"));
+  } catch (error: any) {
+    throw new ConfigError(`Failed to read config file ${path}: ${error.message}`);
+  }
+
+  if (!isPlainObject(parsed)) {
+    throw new ConfigError(`Config file ${path} must contain a JSON object`);
+  }
+  return parsed;
+}
+
+/**
+ * Build the environment variable layer
+ * Numeric and boolean values that don't parse are kept as strings so validation reports them.
+ * List values are comma-separated.
+ */
+function configFromEnv(env: Record<string, string | undefined>): ConfigLayer {
+  const layer: ConfigLayer = {};
+  for (const [name, { path, type }] of Object.entries(ENV_VARS)) {
+    const raw = env[name];
+    if (raw === undefined || raw === "") continue;
+    if (type === "list") {
+      setPath(layer, path, parseList(raw));
+      continue;
+    }
+    if (type === "boolean") {
+      setPath(layer, path, BOOLEAN_VALUES[raw.trim().toLowerCase()] ?? raw);
+      continue;
+    }
+    const number = Number(raw);
+    setPath(layer, path, type === "number" && raw.trim() !== "" && !isNaN(number) ? number : raw);
+  }
+  return layer;
+}
+
+/**
+ * Build the command line layer
+ */
+function configFromCli(options: CliOptions): ConfigLayer {
+  const layer: ConfigLayer = {};
+  for (const [option, path] of Object.entries(CLI_OPTIONS)) {
+    const value = options[option as keyof CliOptions];
+    if (value !== undefined) setPath(layer, path, value);
+  }
+  if (options.noCache) setPath(layer, "cache.enabled", false);
+  return layer;
+}
+
+/**
+ * Resolve and validate the server configuration
+ *
+ * @param sources - Where to read arguments, environment variables and the config file from
+ * @returns The validated configuration
+ * @throws {ConfigError} If the config file can't be read or the merged configuration is invalid
+ *
+ * @example
+ * ```ts
+ * // Point the docs tools at a staging mirror
+ * const config = loadConfig({ argv: ["--docs-base-url", "https://staging.starwind.dev"] });
+ * ```
+ */
+export function loadConfig(sources: ConfigSources = {}): Config {
+  const { argv = process.argv.slice(2), env = process.env, cwd = process.cwd() } = sources;
+
+  let cli: CliOptions;
+  try {
+    cli = parseCliArgs(argv);
+  } catch (error: any) {
+    throw new ConfigError(error.message);
+  }
+
+  const explicitPath = cli.config ?? (env.STARWIND_MCP_CONFIG || undefined);
+  const configPath = resolve(cwd, explicitPath ?? CONFIG_FILE_NAME);
+
+  const merged = mergeLayers(
+    structuredClone(DEFAULT_CONFIG) as unknown as ConfigLayer,
+    readConfigFile(configPath, explicitPath !== undefined),
+    configFromEnv(env),
+    configFromCli(cli),
+  );
+
+  const issues = validateSchema(CONFIG_SCHEMA, merged);
+  if (issues.length > 0) {
+    throw new ConfigError(
+      `Invalid configuration:\n${issues.map((issue) => `  - ${issue.path}: ${issue.message}`).join("\n")}`,
+    );
+  }
+
+  const config = merged as unknown as Config;
+  // URLs are joined with absolute paths, so drop any trailing slash
+  config.docs.baseUrl = config.docs.baseUrl.replace(/\/+$/, "");
+  return config;
+}
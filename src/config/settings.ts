@@ -1,23 +1,265 @@
 /**
  * Configuration settings for the MCP server
  */
+import type { LoggingLevel } from "@modelcontextprotocol/sdk/types.js";
 import { createRequire } from "module";
 
+import type { JsonObjectSchema } from "../utils/json_schema.js";
+import { PACKAGE_MANAGERS, type PackageManager } from "../utils/package_manager.js";
+
 const require = createRequire(import.meta.url);
 const pkg = require("../../package.json");
 
+/**
+ * Supported transport types
+ */
+export type TransportType = "stdio" | "http";
+
 export interface Config {
   server: {
     name: string;
     version: string;
   };
+  /** Transport to serve the MCP server over */
+  transport: TransportType;
+  http: {
+    /** Port for the HTTP transport (0 picks a random free port) */
+    port: number;
+    /** Host interface for the HTTP transport */
+    host: string;
+    /** Browser origins allowed to connect besides localhost */
+    allowedOrigins?: string[];
+  };
+  logging: {
+    /** Minimum level for stderr and log file output */
+    level: LoggingLevel;
+    /** Optional file to append log messages to */
+    file?: string;
+  };
+  network: {
+    /** Timeout for each request attempt in milliseconds */
+    timeoutMs: number;
+    /** Retries after a failed attempt (network errors, timeouts, 429 and 5xx responses) */
+    retries: number;
+    /** How long a request waits for its host's rate limit before failing, in milliseconds */
+    rateLimitQueueMs: number;
+    /** Proxy for all requests (defaults to HTTPS_PROXY / HTTP_PROXY) */
+    proxy?: string;
+    /** Hosts to connect to directly, bypassing the proxy (defaults to NO_PROXY) */
+    noProxy?: string[];
+    /** PEM files with extra CA certificates to trust, e.g. for a proxy that inspects HTTPS */
+    caFiles?: string[];
+  };
+  cache: {
+    /** Persist fetched docs and manifests on disk (in memory only when false) */
+    enabled: boolean;
+    /** Cache directory (defaults to the platform user cache directory, e.g. ~/.cache/starwind-mcp) */
+    dir?: string;
+    /** Maximum size of the disk cache in megabytes, least recently used entries are evicted first */
+    maxSizeMb: number;
+    /** Fetch llms.txt and the Pro manifest in the background at startup */
+    prefetch: boolean;
+  };
+  offline: {
+    /** Serve docs and the Pro manifest from the bundled snapshot without any network access */
+    enabled: boolean;
+    /** Snapshot file (defaults to the one bundled with the package) */
+    snapshot?: string;
+  };
+  docs: {
+    /** Base URL of the docs site serving llms.txt, llms-full.txt and the markdown pages */
+    baseUrl: string;
+    /** Maximum requests per minute to the docs host, shared by all tools */
+    rateLimit: number;
+    /** Cache TTLs in seconds */
+    cacheTtl: {
+      /** llms.txt */
+      standard: number;
+      /** llms-full.txt */
+      full: number;
+      /** Individual markdown pages */
+      page: number;
+      /** Component list parsed from llms.txt */
+      components: number;
+    };
+  };
+  pro: {
+    /** URL of the Starwind Pro block manifest */
+    manifestUrl: string;
+    /** Maximum requests per minute to the manifest host */
+    rateLimit: number;
+    /** Manifest cache TTL in seconds */
+    cacheTtl: number;
+  };
+  packageManager: {
+    /** Package manager to use when the project doesn't declare one (detected when unset) */
+    default?: PackageManager;
+  };
+  tools: {
+    /** Only expose these tools (all tools when unset) */
+    allow?: string[];
+    /** Never expose these tools, even if allowed */
+    deny?: string[];
+  };
 }
 
-const config: Config = {
+/**
+ * Built-in defaults, the lowest configuration layer
+ */
+export const DEFAULT_CONFIG: Config = {
   server: {
     name: pkg.name,
     version: pkg.version,
   },
+  transport: "stdio",
+  http: {
+    port: 3000,
+    host: "127.0.0.1",
+  },
+  logging: {
+    level: "info",
+  },
+  network: {
+    timeoutMs: 10_000,
+    retries: 2,
+    rateLimitQueueMs: 2_000,
+  },
+  cache: {
+    enabled: true,
+    maxSizeMb: 50,
+    prefetch: false,
+  },
+  offline: {
+    enabled: false,
+  },
+  docs: {
+    baseUrl: "https://starwind.dev",
+    rateLimit: 10,
+    cacheTtl: {
+      standard: 60 * 60, // 1 hour
+      full: 60 * 60 * 3, // 3 hours
+      page: 60 * 60 * 2, // 2 hours
+      components: 60 * 60, // 1 hour
+    },
+  },
+  pro: {
+    manifestUrl: "https://pro.starwind.dev/r/manifest.json",
+    rateLimit: 3,
+    cacheTtl: 60 * 60, // 1 hour
+  },
+  packageManager: {},
+  tools: {},
 };
 
-export default config;
+const URL_PATTERN = "^https?://";
+
+/**
+ * Schema the merged configuration is validated against at startup
+ */
+export const CONFIG_SCHEMA = {
+  type: "object",
+  additionalProperties: false,
+  properties: {
+    server: {
+      type: "object",
+      additionalProperties: false,
+      properties: {
+        name: { type: "string" },
+        version: { type: "string" },
+      },
+    },
+    transport: { type: "string", enum: ["stdio", "http"] },
+    http: {
+      type: "object",
+      additionalProperties: false,
+      properties: {
+        port: { type: "integer", minimum: 0, maximum: 65535 },
+        host: { type: "string", minLength: 1 },
+        allowedOrigins: { type: "array", items: { type: "string", pattern: URL_PATTERN } },
+      },
+    },
+    logging: {
+      type: "object",
+      additionalProperties: false,
+      properties: {
+        level: {
+          type: "string",
+          enum: ["debug", "info", "notice", "warning", "error", "critical", "alert", "emergency"],
+        },
+        file: { type: "string" },
+      },
+    },
+    network: {
+      type: "object",
+      additionalProperties: false,
+      properties: {
+        timeoutMs: { type: "integer", minimum: 1 },
+        retries: { type: "integer", minimum: 0, maximum: 10 },
+        rateLimitQueueMs: { type: "integer", minimum: 0 },
+        proxy: { type: "string", pattern: URL_PATTERN },
+        noProxy: { type: "array", items: { type: "string", minLength: 1 } },
+        caFiles: { type: "array", items: { type: "string", minLength: 1 } },
+      },
+    },
+    cache: {
+      type: "object",
+      additionalProperties: false,
+      properties: {
+        enabled: { type: "boolean" },
+        dir: { type: "string", minLength: 1 },
+        maxSizeMb: { type: "number", minimum: 1 },
+        prefetch: { type: "boolean" },
+      },
+    },
+    offline: {
+      type: "object",
+      additionalProperties: false,
+      properties: {
+        enabled: { type: "boolean" },
+        snapshot: { type: "string", minLength: 1 },
+      },
+    },
+    docs: {
+      type: "object",
+      additionalProperties: false,
+      properties: {
+        baseUrl: { type: "string", pattern: URL_PATTERN },
+        rateLimit: { type: "integer", minimum: 1 },
+        cacheTtl: {
+          type: "object",
+          additionalProperties: false,
+          properties: {
+            standard: { type: "integer", minimum: 0 },
+            full: { type: "integer", minimum: 0 },
+            page: { type: "integer", minimum: 0 },
+            components: { type: "integer", minimum: 0 },
+          },
+        },
+      },
+    },
+    pro: {
+      type: "object",
+      additionalProperties: false,
+      properties: {
+        manifestUrl: { type: "string", pattern: URL_PATTERN },
+        rateLimit: { type: "integer", minimum: 1 },
+        cacheTtl: { type: "integer", minimum: 0 },
+      },
+    },
+    packageManager: {
+      type: "object",
+      additionalProperties: false,
+      properties: {
+        default: { type: "string", enum: PACKAGE_MANAGERS },
+      },
+    },
+    tools: {
+      type: "object",
+      additionalProperties: false,
+      properties: {
+        allow: { type: "array", items: { type: "string", minLength: 1 } },
+        deny: { type: "array", items: { type: "string", minLength: 1 } },
+      },
+    },
+  },
+} as const satisfies JsonObjectSchema;
@@ -0,0 +1,57 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+
+import { setupCompletions } from "./completions/index.js";
+import { setupPrompts } from "./prompts/index.js";
+import { setupResources } from "./resources/index.js";
+import { DEFAULT_TOOL_CONTEXT, type ToolContext } from "./tools/define_tool.js";
+import { getEnabledTools, setupTools } from "./tools/index.js";
+import { logger } from "./utils/logger.js";
+
+/**
+ * Create a new MCP server instance with all tools, resources, prompts and completions registered
+ *
+ * Each transport connection needs its own server instance, so the HTTP
+ * transport calls this once per client session.
+ *
+ * @param context - Resolved configuration and the shared response cache, injected into every
+ * tool, resource and completion
+ */
+export function createServer(context: ToolContext = DEFAULT_TOOL_CONTEXT): Server {
+  const { config } = context;
+
+  // Dynamically build capabilities object from the enabled tools
+  const toolCapabilities: Record<string, any> = {};
+  Array.from(getEnabledTools(config).entries()).forEach(([name, tool]) => {
+    toolCapabilities[name] = {
+      inputSchema: tool.inputSchema,
+      annotations: tool.annotations,
+    };
+  });
+
+  const server = new Server(
+    {
+      name: config.server.name,
+      version: config.server.version,
+    },
+    {
+      capabilities: {
+        completions: {},
+        logging: {},
+        prompts: {},
+        resources: {},
+        tools: toolCapabilities,
+      },
+    },
+  );
+
+  // Setup tool, resource, prompt and completion handlers
+  setupTools(server, context);
+  setupResources(server, context);
+  setupPrompts(server, context);
+  setupCompletions(server, context);
+
+  // Send diagnostics to this server's client as notifications/message
+  logger.attach(server);
+
+  return server;
+}
@@ -0,0 +1,40 @@
+import type { GetPromptResult, PromptArgument } from "@modelcontextprotocol/sdk/types.js";
+
+import type { CompletionProvider } from "../completions/providers.js";
+import type { ToolContext } from "../tools/define_tool.js";
+
+/**
+ * A prompt definition whose handler receives the prompt's arguments as `A`
+ */
+export interface PromptDefinition<A = Record<string, string | undefined>> {
+  name: string;
+  description: string;
+  /** Arguments the prompt accepts - required ones are checked before the handler is called */
+  arguments: PromptArgument[];
+  /** Completion providers for the arguments, keyed by argument name */
+  completions?: Record<string, CompletionProvider>;
+  /** Renders the prompt messages for the given arguments, leaving out disabled tools */
+  handler(args: A, context?: ToolContext): GetPromptResult;
+}
+
+/**
+ * Any prompt definition, as stored in the registry
+ */
+export type AnyPromptDefinition = PromptDefinition<any>;
+
+/**
+ * Define a prompt, typing its handler arguments
+ *
+ * @example
+ * ```ts
+ * export const greetPrompt = definePrompt({
+ *   name: "greet",
+ *   ...
+ *   arguments: [{ name: "name", required: true }],
+ *   handler: (args: { name: string }) => ({ messages: [...] }),
+ * });
+ * ```
+ */
+export function definePrompt<A>(definition: PromptDefinition<A>): PromptDefinition<A> {
+  return definition;
+}
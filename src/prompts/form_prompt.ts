@@ -0,0 +1,97 @@
+/**
+ * Form Prompt
+ * Guides the model through adding a validated form built from Starwind components
+ */
+
+import { completeFromList } from "../completions/providers.js";
+import { DEFAULT_TOOL_CONTEXT } from "../tools/define_tool.js";
+import { definePrompt } from "./define_prompt.js";
+import { formatWorkflow } from "./workflow.js";
+
+/**
+ * Arguments for the add_form prompt
+ */
+export interface FormArgs {
+  /** Comma-separated form fields (e.g., "name, email, message") */
+  fields: string;
+  /** Validation requirements in plain language */
+  validation?: string;
+  /** What the form is for (e.g., "contact", "newsletter signup") */
+  purpose?: string;
+}
+
+/**
+ * Add form prompt definition
+ */
+export const formPrompt = definePrompt({
+  name: "add_form",
+  description:
+    "Add a form with validation built from Starwind UI components (input, label, textarea, select, checkbox, button).",
+  arguments: [
+    {
+      name: "fields",
+      description: "Comma-separated list of form fields (e.g., 'name, email, message').",
+      required: true,
+    },
+    {
+      name: "validation",
+      description:
+        "Validation rules in plain language (e.g., 'email must be valid, message at least 20 characters').",
+      required: false,
+    },
+    {
+      name: "purpose",
+      description: "What the form is for (e.g., 'contact', 'newsletter signup').",
+      required: false,
+    },
+  ],
+  completions: {
+    purpose: completeFromList([
+      "contact",
+      "newsletter signup",
+      "login",
+      "registration",
+      "checkout",
+    ]),
+  },
+  handler: (args: FormArgs, { config } = DEFAULT_TOOL_CONTEXT) => {
+    const purpose = args.purpose ? `${args.purpose} form` : "form";
+    const validation = args.validation
+      ? `Validation rules: ${args.validation}.`
+      : "Add sensible validation for each field (required fields, formats and lengths).";
+
+    const text = formatWorkflow(
+      config,
+      `Add a ${purpose} with these fields: ${args.fields}. ${validation}`,
+      [
+        {
+          tool: "starwind_project_status",
+          instruction:
+            "Check whether Starwind UI is initialized and which components are installed.",
+        },
+        {
+          tool: "starwind_init",
+          instruction: "Initialize Starwind UI unless the project is already initialized.",
+        },
+        {
+          tool: "starwind_docs",
+          instruction:
+            "Read the docs for 'form' first, then for each component the fields need (e.g., input, label, textarea, select, checkbox, button).",
+        },
+        {
+          tool: "starwind_add",
+          instruction: "Install every component the form uses in a single call.",
+        },
+      ],
+      [
+        "Use native HTML validation attributes (required, type, minlength, pattern) and show error messages next to the matching field.",
+        "Associate every input with a label for accessibility.",
+      ],
+    );
+
+    return {
+      description: `Add a validated ${purpose}`,
+      messages: [{ role: "user" as const, content: { type: "text" as const, text } }],
+    };
+  },
+});
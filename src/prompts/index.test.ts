@@ -0,0 +1,115 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { DEFAULT_CONFIG } from "../config/settings";
+import { DEFAULT_TOOL_CONTEXT } from "../tools/define_tool";
+import { setupPrompts } from "./index";
+import { landingPagePrompt } from "./landing_page_prompt";
+
+describe("setupPrompts", () => {
+  let client: Client;
+
+  beforeEach(async () => {
+    const server = new Server(
+      { name: "test", version: "0.0.0" },
+      { capabilities: { prompts: {} } },
+    );
+    setupPrompts(server);
+    client = new Client({ name: "test-client", version: "0.0.0" });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  it("should list all prompts with their arguments", async () => {
+    const result = await client.listPrompts();
+    const names = result.prompts.map((p) => p.name);
+
+    expect(names).toEqual(["build_landing_page", "add_form", "theme_project"]);
+    const formPrompt = result.prompts.find((p) => p.name === "add_form");
+    expect(formPrompt?.arguments?.find((a) => a.name === "fields")?.required).toBe(true);
+  });
+
+  it("should order landing page tools status, init, search, add", async () => {
+    const result = await client.getPrompt({
+      name: "build_landing_page",
+      arguments: { sections: "hero, pricing", style: "dark" },
+    });
+    const text = result.messages[0].content.text as string;
+
+    expect(text).toContain("hero, pricing");
+    expect(text).toContain("'dark'");
+    expect(text.indexOf("`starwind_project_status`")).toBeLessThan(text.indexOf("`starwind_init`"));
+    expect(text.indexOf("`starwind_init`")).toBeLessThan(
+      text.indexOf("`search_starwind_pro_blocks`"),
+    );
+    expect(text.indexOf("`search_starwind_pro_blocks`")).toBeLessThan(
+      text.indexOf("`starwind_add`"),
+    );
+  });
+
+  it("should use default sections when none are provided", async () => {
+    const result = await client.getPrompt({ name: "build_landing_page" });
+    const text = result.messages[0].content.text as string;
+
+    expect(text).toContain("hero, feature, testimonial, pricing, cta, footer");
+    expect(text).toContain("src/pages/index.astro");
+  });
+
+  it("should order form tools status, init, docs, add", async () => {
+    const result = await client.getPrompt({
+      name: "add_form",
+      arguments: { fields: "name, email", purpose: "contact" },
+    });
+    const text = result.messages[0].content.text as string;
+
+    expect(text).toContain("contact form");
+    expect(text).toContain("name, email");
+    expect(text.indexOf("`starwind_project_status`")).toBeLessThan(text.indexOf("`starwind_init`"));
+    expect(text.indexOf("`starwind_init`")).toBeLessThan(text.indexOf("`starwind_docs`"));
+    expect(text.indexOf("`starwind_docs`")).toBeLessThan(text.indexOf("`starwind_add`"));
+  });
+
+  it("should require the fields argument for add_form", async () => {
+    await expect(client.getPrompt({ name: "add_form" })).rejects.toThrow("fields");
+  });
+
+  it("should include theme-toggle only when dark mode is enabled", async () => {
+    const withDark = await client.getPrompt({ name: "theme_project", arguments: {} });
+    const withoutDark = await client.getPrompt({
+      name: "theme_project",
+      arguments: { darkMode: "false" },
+    });
+
+    expect(withDark.messages[0].content.text).toContain("theme-toggle");
+    expect(withoutDark.messages[0].content.text).not.toContain("theme-toggle");
+  });
+
+  it("should leave out steps for disabled tools", () => {
+    const result = landingPagePrompt.handler(
+      {},
+      {
+        ...DEFAULT_TOOL_CONTEXT,
+        config: {
+          ...DEFAULT_CONFIG,
+          tools: { deny: ["search_starwind_pro_blocks", "starwind_project_status"] },
+        },
+      },
+    );
+    const text = result.messages[0].content.text as string;
+
+    expect(text).not.toContain("search_starwind_pro_blocks");
+    expect(text).not.toContain("starwind_project_status");
+    expect(text).toContain("1. `starwind_init`");
+    expect(text).toContain("ask the user which Pro block id");
+  });
+
+  it("should reject unknown prompts", async () => {
+    await expect(client.getPrompt({ name: "nope" })).rejects.toThrow("not found");
+  });
+});
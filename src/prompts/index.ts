@@ -0,0 +1,66 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  McpError,
+} from "@modelcontextprotocol/sdk/types.js";
+
+import { DEFAULT_TOOL_CONTEXT, type ToolContext } from "../tools/define_tool.js";
+import type { AnyPromptDefinition } from "./define_prompt.js";
+import { formPrompt } from "./form_prompt.js";
+import { landingPagePrompt } from "./landing_page_prompt.js";
+import { themePrompt } from "./theme_prompt.js";
+
+/**
+ * Collection of available prompts
+ */
+const prompts = new Map<string, AnyPromptDefinition>();
+
+// Register build_landing_page prompt - landing page from Pro blocks
+prompts.set(landingPagePrompt.name, landingPagePrompt);
+
+// Register add_form prompt - validated form from standard components
+prompts.set(formPrompt.name, formPrompt);
+
+// Register theme_project prompt - theming and dark mode
+prompts.set(themePrompt.name, themePrompt);
+
+/**
+ * Set up the prompts for the MCP server
+ * @param server - The MCP server instance
+ * @param context - Configuration the prompts check for disabled tools
+ */
+export function setupPrompts(server: Server, context: ToolContext = DEFAULT_TOOL_CONTEXT): void {
+  // Handle prompt listing
+  server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+    prompts: Array.from(prompts.entries()).map(([name, prompt]) => ({
+      name,
+      description: prompt.description,
+      arguments: prompt.arguments,
+    })),
+  }));
+
+  // Handle prompt retrieval
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    const prompt = prompts.get(request.params.name);
+    if (!prompt) {
+      throw new McpError(ErrorCode.InvalidParams, `Prompt '${request.params.name}' not found`);
+    }
+
+    const args = request.params.arguments ?? {};
+    const missing = prompt.arguments
+      .filter((arg) => arg.required && !args[arg.name])
+      .map((arg) => arg.name);
+    if (missing.length > 0) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Missing required argument(s) for prompt '${request.params.name}': ${missing.join(", ")}`,
+      );
+    }
+
+    return prompt.handler(args, context);
+  });
+}
+
+export { prompts };
@@ -0,0 +1,108 @@
+/**
+ * Landing Page Prompt
+ * Guides the model through building a landing page from Starwind Pro blocks
+ */
+
+import { completeCommaSeparated, completeProCategory } from "../completions/providers.js";
+import { DEFAULT_TOOL_CONTEXT, isToolEnabled } from "../tools/define_tool.js";
+import { definePrompt } from "./define_prompt.js";
+import { formatWorkflow } from "./workflow.js";
+
+/**
+ * Arguments for the build_landing_page prompt
+ */
+export interface LandingPageArgs {
+  /** Comma-separated page sections (e.g., "hero, features, pricing, footer") */
+  sections?: string;
+  /** Visual style to search blocks for (e.g., "dark", "minimal") */
+  style?: string;
+  /** Path of the page to create */
+  page?: string;
+}
+
+const DEFAULT_SECTIONS = ["hero", "feature", "testimonial", "pricing", "cta", "footer"];
+
+/**
+ * Build landing page prompt definition
+ */
+export const landingPagePrompt = definePrompt({
+  name: "build_landing_page",
+  description:
+    "Build an Astro landing page from Starwind Pro blocks: initializes Pro, finds a block for each section and installs them.",
+  arguments: [
+    {
+      name: "sections",
+      description:
+        "Comma-separated list of page sections in order (e.g., 'hero, features, pricing, footer'). Defaults to hero, feature, testimonial, pricing, cta, footer.",
+      required: false,
+    },
+    {
+      name: "style",
+      description: "Visual style to look for in block search results (e.g., 'dark', 'minimal').",
+      required: false,
+    },
+    {
+      name: "page",
+      description: "Path of the page to create. Defaults to src/pages/index.astro.",
+      required: false,
+    },
+  ],
+  completions: {
+    sections: completeCommaSeparated(completeProCategory),
+  },
+  handler: (args: LandingPageArgs = {}, { config } = DEFAULT_TOOL_CONTEXT) => {
+    const sections = args.sections
+      ? args.sections
+          .split(",")
+          .map((s) => s.trim())
+          .filter(Boolean)
+      : DEFAULT_SECTIONS;
+    const page = args.page || "src/pages/index.astro";
+    const styleHint = args.style ? ` Prefer blocks matching the '${args.style}' style.` : "";
+    const notes = [
+      `Import the installed blocks into \`${page}\` and render them in section order.`,
+      "Some blocks are on the 'pro' plan and require a Starwind Pro subscription; mention this when you choose one.",
+    ];
+    if (!isToolEnabled(config, "search_starwind_pro_blocks")) {
+      notes.unshift(
+        "Block search is disabled on this server, ask the user which Pro block id to use for each section.",
+      );
+    }
+
+    const text = formatWorkflow(
+      config,
+      `Build a landing page at \`${page}\` with these sections, in order: ${sections.join(", ")}.`,
+      [
+        {
+          tool: "starwind_project_status",
+          instruction: "Check whether the project is initialized, and whether with Pro.",
+        },
+        {
+          tool: "starwind_init",
+          instruction:
+            "Initialize the project with pro=true (skip only if it was already initialized with Pro).",
+        },
+        {
+          tool: "search_starwind_pro_blocks",
+          instruction: `Search once per section using it as the category (${sections.join(", ")}) and pick one block for each.${styleHint}`,
+        },
+        {
+          tool: "starwind_add",
+          instruction:
+            "Pass all chosen block ids (prefixed with @starwind-pro/) in one call with pro=true.",
+        },
+        {
+          tool: "starwind_docs",
+          instruction:
+            "Look up any standard components the blocks use if you need to customize them.",
+        },
+      ],
+      notes,
+    );
+
+    return {
+      description: "Build a landing page from Starwind Pro blocks",
+      messages: [{ role: "user" as const, content: { type: "text" as const, text } }],
+    };
+  },
+});
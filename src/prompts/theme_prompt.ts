@@ -0,0 +1,91 @@
+/**
+ * Theme Prompt
+ * Guides the model through theming a Starwind UI project
+ */
+
+import { completeFromList } from "../completions/providers.js";
+import { DEFAULT_TOOL_CONTEXT } from "../tools/define_tool.js";
+import { definePrompt } from "./define_prompt.js";
+import { formatWorkflow, type WorkflowStep } from "./workflow.js";
+
+/**
+ * Arguments for the theme_project prompt
+ */
+export interface ThemeArgs {
+  /** Primary brand color (any CSS color) */
+  primaryColor?: string;
+  /** Whether to add dark mode support ("true" or "false") */
+  darkMode?: string;
+  /** Overall look (e.g., "playful", "corporate") */
+  style?: string;
+}
+
+/**
+ * Theme project prompt definition
+ */
+export const themePrompt = definePrompt({
+  name: "theme_project",
+  description:
+    "Theme a Starwind UI project: brand colors, radius and typography through the theme CSS variables, with optional dark mode.",
+  arguments: [
+    {
+      name: "primaryColor",
+      description:
+        "Primary brand color as any CSS color (e.g., '#6d28d9' or 'oklch(0.6 0.2 280)').",
+      required: false,
+    },
+    {
+      name: "darkMode",
+      description: "Whether to add dark mode support with a theme toggle ('true' or 'false').",
+      required: false,
+    },
+    {
+      name: "style",
+      description: "Overall look and feel (e.g., 'playful', 'corporate', 'minimal').",
+      required: false,
+    },
+  ],
+  completions: {
+    darkMode: completeFromList(["true", "false"]),
+    style: completeFromList(["minimal", "playful", "corporate", "bold", "elegant"]),
+  },
+  handler: (args: ThemeArgs = {}, { config } = DEFAULT_TOOL_CONTEXT) => {
+    const darkMode = args.darkMode !== "false";
+    const goalParts = ["Theme this Starwind UI project"];
+    if (args.primaryColor) goalParts.push(`using ${args.primaryColor} as the primary color`);
+    if (args.style) goalParts.push(`with a ${args.style} look`);
+
+    const steps: WorkflowStep[] = [
+      {
+        tool: "starwind_project_status",
+        instruction: "Check whether Starwind UI is initialized and which CSS file holds the theme.",
+      },
+      {
+        tool: "starwind_init",
+        instruction: "Initialize Starwind UI unless the project is already initialized.",
+      },
+      {
+        tool: "starwind_docs",
+        instruction: darkMode
+          ? "Read the 'theming' docs for the CSS variables, then the 'dark-mode' docs."
+          : "Read the 'theming' docs for the CSS variables.",
+      },
+    ];
+    if (darkMode) {
+      steps.push({
+        tool: "starwind_add",
+        instruction: "Install the theme-toggle component.",
+      });
+    }
+
+    const text = formatWorkflow(config, `${goalParts.join(" ")}.`, steps, [
+      "Edit the CSS variables in the Starwind CSS file created by init instead of overriding component classes.",
+      "Keep foreground/background pairs at a readable contrast ratio.",
+    ]);
+
+    return {
+      description: "Theme a Starwind UI project",
+      messages: [{ role: "user" as const, content: { type: "text" as const, text } }],
+    };
+  },
+});
@@ -0,0 +1,79 @@
+/**
+ * Starwind Workflow Rules
+ * The single source of truth for the order in which Starwind tools should be called.
+ * Used by the prompts and referenced from the tool descriptions.
+ */
+
+import type { Config } from "../config/settings.js";
+import { isToolEnabled } from "../tools/define_tool.js";
+
+/**
+ * Names of the tools a workflow can reference
+ */
+export type WorkflowToolName =
+  | "starwind_project_status"
+  | "starwind_init"
+  | "starwind_docs"
+  | "starwind_add"
+  | "search_starwind_pro_blocks";
+
+/**
+ * Ordering rule for each tool, phrased so it can be appended to a tool description
+ */
+export const WORKFLOW_RULES: Record<WorkflowToolName, string> = {
+  starwind_project_status:
+    "Use this FIRST, before starwind_init, to check whether the project is already initialized, so init isn't run twice.",
+  starwind_init:
+    "ALWAYS use this tool before adding any Starwind components or blocks, unless starwind_project_status reports the project is already initialized.",
+  starwind_docs:
+    "Use this before starwind_add to confirm component names, props and usage examples.",
+  starwind_add: "Use this after consulting starwind_docs to know which components to install.",
+  search_starwind_pro_blocks:
+    "IMPORTANT: Pro blocks require the project to be initialized with 'starwind@latest init --defaults --pro' before they can be added.",
+};
+
+/**
+ * A single step in a workflow
+ */
+export interface WorkflowStep {
+  /** Tool to call in this step */
+  tool: WorkflowToolName;
+  /** What to do with the tool in the context of the workflow */
+  instruction: string;
+}
+
+/**
+ * Render a goal and its ordered tool steps as prompt text
+ * Steps for tools disabled by `tools.allow` or `tools.deny` are left out.
+ *
+ * @param config - The server configuration
+ * @param goal - What the user wants to achieve
+ * @param steps - Tool calls, in the order they must be made
+ * @param notes - Additional guidance appended after the steps
+ * @returns Markdown instructions for the model
+ */
+export function formatWorkflow(
+  config: Config,
+  goal: string,
+  steps: WorkflowStep[],
+  notes: string[] = [],
+): string {
+  const lines = [goal, "", "Call the Starwind MCP tools in this order:", ""];
+
+  const enabledSteps = steps.filter((step) => isToolEnabled(config, step.tool));
+  enabledSteps.forEach((step, index) => {
+    lines.push(`${index + 1}. \`${step.tool}\` - ${step.instruction}`);
+  });
+
+  if (notes.length > 0) {
+    lines.push("", "Notes:");
+    notes.forEach((note) => lines.push(`- ${note}`));
+  }
+
+  lines.push(
+    "",
+    "Run the install commands the tools return in the project directory, and do not invent component names or install commands.",
+  );
+
+  return lines.join("\n");
+}
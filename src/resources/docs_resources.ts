@@ -0,0 +1,99 @@
+/**
+ * Starwind Docs Resources
+ * Exposes starwind.dev documentation and the component catalog as MCP resources
+ */
+
+import { completeComponent, completeDocsTopic } from "../completions/providers.js";
+import { getAvailableComponents, starwindAddTool } from "../tools/starwind_add_tool.js";
+import { starwindDocsTool } from "../tools/starwind_docs_tool.js";
+import { ResourceNotFoundError, type StaticResource, type TemplateResource } from "./types.js";
+
+/**
+ * Concise documentation index (llms.txt)
+ */
+export const docsIndexResource: StaticResource = {
+  uri: "starwind://llms.txt",
+  name: "Starwind UI documentation",
+  description: "Concise Starwind UI documentation from starwind.dev/llms.txt",
+  mimeType: "text/markdown",
+  tool: starwindDocsTool.name,
+  read: async (context) => {
+    const result = await starwindDocsTool.handler({}, context);
+    return result.documentation;
+  },
+};
+
+/**
+ * Full documentation with complete code examples (llms-full.txt)
+ */
+export const docsFullResource: StaticResource = {
+  uri: "starwind://llms-full.txt",
+  name: "Starwind UI full documentation",
+  description:
+    "Complete Starwind UI documentation with full code examples from starwind.dev/llms-full.txt",
+  mimeType: "text/markdown",
+  tool: starwindDocsTool.name,
+  read: async (context) => {
+    const result = await starwindDocsTool.handler({ full: true }, context);
+    return result.documentation;
+  },
+};
+
+/**
+ * List of installable component slugs
+ */
+export const componentsListResource: StaticResource = {
+  uri: "starwind://components",
+  name: "Starwind UI components",
+  description:
+    "JSON list of all Starwind UI component slugs that can be installed with starwind_add",
+  mimeType: "application/json",
+  tool: starwindAddTool.name,
+  read: async (context) => {
+    const { components, source } = await getAvailableComponents(context);
+    return JSON.stringify({ components, source }, null, 2);
+  },
+};
+
+/**
+ * Documentation page for any topic (component or guide)
+ */
+export const docsTopicTemplate: TemplateResource = {
+  uriTemplate: "starwind://docs/{topic}",
+  name: "Starwind UI documentation topic",
+  description:
+    "Documentation for a single topic, e.g. starwind://docs/button or starwind://docs/theming",
+  mimeType: "text/markdown",
+  tool: starwindDocsTool.name,
+  read: async ({ topic }, context) => {
+    const result = await starwindDocsTool.handler({ topic }, context);
+    return result.documentation;
+  },
+  completions: {
+    topic: completeDocsTopic,
+  },
+};
+
+/**
+ * Documentation page for a known component
+ */
+export const componentTemplate: TemplateResource = {
+  uriTemplate: "starwind://components/{slug}",
+  name: "Starwind UI component",
+  description: "Markdown documentation for a single component, e.g. starwind://components/dialog",
+  mimeType: "text/markdown",
+  tool: starwindDocsTool.name,
+  read: async ({ slug }, context) => {
+    const normalized = slug.toLowerCase().trim();
+    const { components } = await getAvailableComponents(context);
+    if (!components.includes(normalized)) {
+      throw new ResourceNotFoundError(`Unknown Starwind UI component: '${slug}'`);
+    }
+
+    const result = await starwindDocsTool.handler({ topic: normalized }, context);
+    return result.documentation;
+  },
+  completions: {
+    slug: completeComponent,
+  },
+};
@@ -0,0 +1,219 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { DEFAULT_CONFIG } from "../config/settings";
+import { DEFAULT_TOOL_CONTEXT } from "../tools/define_tool";
+import { resetProBlocksToolState } from "../tools/search_pro_blocks_tool";
+import { resetAddToolState } from "../tools/starwind_add_tool";
+import { resetDocsToolState } from "../tools/starwind_docs_tool";
+import { setupResources } from "./index";
+
+const LLMS_TXT = `# Starwind UI
+
+## Components
+
+- [Button](https://starwind.dev/docs/components/button)
+- [Card](https://starwind.dev/docs/components/card)
+- [Dialog](https://starwind.dev/docs/components/dialog)
+`;
+
+const MANIFEST = {
+  $schema: "https://pro.starwind.dev/schema.json",
+  name: "starwind-pro",
+  version: "1.0.0",
+  generatedAt: "2026-01-01T00:00:00.000Z",
+  baseUrl: "https://pro.starwind.dev",
+  totalBlocks: 1,
+  categories: ["hero"],
+  blocks: [
+    {
+      id: "hero-01",
+      name: "Hero 01",
+      description: "A simple hero",
+      categories: ["hero"],
+      keywords: ["landing"],
+      plan: "free",
+      installCommand: "npx starwind@latest add @starwind-pro/hero-01",
+      previewUrl: "/blocks/hero-01",
+    },
+  ],
+};
+
+function mockFetch(url: string) {
+  if (url === "https://starwind.dev/llms.txt") return new Response(LLMS_TXT);
+  if (url === "https://pro.starwind.dev/r/manifest.json") return Response.json(MANIFEST);
+  if (url === "https://starwind.dev/docs/components/button/markdown.md") {
+    return new Response("# Button\n\nButton docs");
+  }
+  return new Response("Not Found", { status: 404 });
+}
+
+describe("setupResources", () => {
+  let client: Client;
+
+  beforeEach(async () => {
+    resetDocsToolState();
+    resetAddToolState();
+    resetProBlocksToolState();
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (url: string) => mockFetch(url)),
+    );
+
+    const server = new Server(
+      { name: "test", version: "0.0.0" },
+      { capabilities: { resources: {} } },
+    );
+    setupResources(server);
+    client = new Client({ name: "test-client", version: "0.0.0" });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    vi.unstubAllGlobals();
+  });
+
+  it("should list static resources", async () => {
+    const result = await client.listResources();
+    const uris = result.resources.map((r) => r.uri);
+
+    expect(uris).toContain("starwind://llms.txt");
+    expect(uris).toContain("starwind://llms-full.txt");
+    expect(uris).toContain("starwind://components");
+    expect(uris).toContain("starwind-pro://blocks");
+  });
+
+  it("should list resource templates", async () => {
+    const result = await client.listResourceTemplates();
+    const templates = result.resourceTemplates.map((t) => t.uriTemplate);
+
+    expect(templates).toEqual([
+      "starwind://docs/{topic}",
+      "starwind://components/{slug}",
+      "starwind-pro://blocks/{id}",
+      "starwind-pro://categories/{category}",
+    ]);
+  });
+
+  it("should read the llms.txt resource", async () => {
+    const result = await client.readResource({ uri: "starwind://llms.txt" });
+
+    expect(result.contents[0].mimeType).toBe("text/markdown");
+    expect(result.contents[0].text).toContain("Starwind UI");
+  });
+
+  it("should read the component list", async () => {
+    const result = await client.readResource({ uri: "starwind://components" });
+    const data = JSON.parse(result.contents[0].text as string);
+
+    expect(data.components).toEqual(["button", "card", "dialog"]);
+  });
+
+  it("should read a component page through the template", async () => {
+    const result = await client.readResource({ uri: "starwind://components/button" });
+
+    expect(result.contents[0].uri).toBe("starwind://components/button");
+    expect(result.contents[0].text).toContain("Button docs");
+  });
+
+  it("should reject unknown components", async () => {
+    await expect(client.readResource({ uri: "starwind://components/zzzz" })).rejects.toThrow(
+      "Unknown Starwind UI component",
+    );
+  });
+
+  it("should read a Pro block through the template", async () => {
+    const result = await client.readResource({ uri: "starwind-pro://blocks/hero-01" });
+    const block = JSON.parse(result.contents[0].text as string);
+
+    expect(block.id).toBe("hero-01");
+    expect(block.installCommand).toContain("--yes");
+    expect(block.previewUrl).toBe("https://pro.starwind.dev/blocks/hero-01");
+  });
+
+  it("should reject unknown Pro blocks", async () => {
+    await expect(client.readResource({ uri: "starwind-pro://blocks/nope" })).rejects.toThrow(
+      "Unknown Starwind Pro block",
+    );
+  });
+
+  it("should read a Pro category through the template", async () => {
+    const result = await client.readResource({ uri: "starwind-pro://categories/hero" });
+    const data = JSON.parse(result.contents[0].text as string);
+
+    expect(data.blocks.map((b: { id: string }) => b.id)).toEqual(["hero-01"]);
+  });
+
+  it("should hide the Pro resources when search_starwind_pro_blocks is disabled", async () => {
+    const server = new Server(
+      { name: "test", version: "0.0.0" },
+      { capabilities: { resources: {} } },
+    );
+    setupResources(server, {
+      ...DEFAULT_TOOL_CONTEXT,
+      config: { ...DEFAULT_CONFIG, tools: { deny: ["search_starwind_pro_blocks"] } },
+    });
+    const noPro = new Client({ name: "test-client", version: "0.0.0" });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), noPro.connect(clientTransport)]);
+
+    try {
+      const { resources } = await noPro.listResources();
+      const { resourceTemplates } = await noPro.listResourceTemplates();
+
+      expect(resources.map((r) => r.uri)).not.toContain("starwind-pro://blocks");
+      expect(resourceTemplates.map((t) => t.uriTemplate)).toEqual([
+        "starwind://docs/{topic}",
+        "starwind://components/{slug}",
+      ]);
+      await expect(noPro.readResource({ uri: "starwind-pro://blocks/hero-01" })).rejects.toThrow(
+        "not found",
+      );
+      expect(fetch).not.toHaveBeenCalled();
+    } finally {
+      await noPro.close();
+    }
+  });
+
+  it("should hide the docs resources when starwind_docs is disabled", async () => {
+    const server = new Server(
+      { name: "test", version: "0.0.0" },
+      { capabilities: { resources: {} } },
+    );
+    setupResources(server, {
+      ...DEFAULT_TOOL_CONTEXT,
+      config: { ...DEFAULT_CONFIG, tools: { allow: ["starwind_add"] } },
+    });
+    const addOnly = new Client({ name: "test-client", version: "0.0.0" });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), addOnly.connect(clientTransport)]);
+
+    try {
+      const { resources } = await addOnly.listResources();
+      const { resourceTemplates } = await addOnly.listResourceTemplates();
+
+      expect(resources.map((r) => r.uri)).toEqual(["starwind://components"]);
+      expect(resourceTemplates).toEqual([]);
+      await expect(addOnly.readResource({ uri: "starwind://llms.txt" })).rejects.toThrow(
+        "not found",
+      );
+    } finally {
+      await addOnly.close();
+    }
+  });
+
+  it("should reject malformed percent-encoding as invalid params", async () => {
+    await expect(client.readResource({ uri: "starwind://docs/%E0" })).rejects.toMatchObject({
+      code: ErrorCode.InvalidParams,
+    });
+  });
+
+  it("should reject URIs that match no resource", async () => {
+    await expect(client.readResource({ uri: "other://thing" })).rejects.toThrow("not found");
+  });
+});
@@ -0,0 +1,157 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { UriTemplate } from "@modelcontextprotocol/sdk/shared/uriTemplate.js";
+import {
+  ErrorCode,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+
+import type { Config } from "../config/settings.js";
+import { DEFAULT_TOOL_CONTEXT, isToolEnabled, type ToolContext } from "../tools/define_tool.js";
+import { logger } from "../utils/logger.js";
+import {
+  componentsListResource,
+  componentTemplate,
+  docsFullResource,
+  docsIndexResource,
+  docsTopicTemplate,
+} from "./docs_resources.js";
+import {
+  proBlocksListResource,
+  proBlockTemplate,
+  proCategoryTemplate,
+} from "./pro_blocks_resources.js";
+import { ResourceNotFoundError, type StaticResource, type TemplateResource } from "./types.js";
+
+/**
+ * Collection of resources with fixed URIs
+ */
+const resources = new Map<string, StaticResource>();
+
+resources.set(docsIndexResource.uri, docsIndexResource);
+resources.set(docsFullResource.uri, docsFullResource);
+resources.set(componentsListResource.uri, componentsListResource);
+resources.set(proBlocksListResource.uri, proBlocksListResource);
+
+/**
+ * Collection of resource templates, checked in order when reading a URI
+ */
+const resourceTemplates: TemplateResource[] = [
+  docsTopicTemplate,
+  componentTemplate,
+  proBlockTemplate,
+  proCategoryTemplate,
+];
+
+/**
+ * Whether the tool a resource or template belongs to (if any) is enabled
+ */
+function isEnabled(resource: { tool?: string }, config: Config): boolean {
+  return resource.tool === undefined || isToolEnabled(config, resource.tool);
+}
+
+/**
+ * Get the resource templates exposed under a configuration
+ * Templates that belong to a tool disabled by `tools.allow` or `tools.deny` are left out.
+ */
+export function getEnabledResourceTemplates(config: Config): TemplateResource[] {
+  return resourceTemplates.filter((template) => isEnabled(template, config));
+}
+
+/**
+ * Find the enabled resource or template that handles a URI
+ * @throws {McpError} If a template matches but a variable isn't valid percent-encoding
+ */
+function resolveResource(
+  uri: string,
+  config: Config,
+): { read: (context: ToolContext) => Promise<string>; mimeType: string } | undefined {
+  const resource = resources.get(uri);
+  if (resource && isEnabled(resource, config)) {
+    return { read: resource.read, mimeType: resource.mimeType };
+  }
+
+  for (const template of getEnabledResourceTemplates(config)) {
+    const match = new UriTemplate(template.uriTemplate).match(uri);
+    if (match) {
+      const variables: Record<string, string> = {};
+      for (const [key, value] of Object.entries(match)) {
+        try {
+          variables[key] = decodeURIComponent(Array.isArray(value) ? value[0] : value);
+        } catch {
+          throw new McpError(ErrorCode.InvalidParams, `Resource '${uri}' has a malformed ${key}`);
+        }
+      }
+      return {
+        read: (context) => template.read(variables, context),
+        mimeType: template.mimeType,
+      };
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Set up the resources for the MCP server
+ * @param server - The MCP server instance
+ * @param context - Configuration and cache passed to resource reads
+ */
+export function setupResources(server: Server, context: ToolContext = DEFAULT_TOOL_CONTEXT): void {
+  // Handle resource listing
+  server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+    resources: Array.from(resources.values())
+      .filter((resource) => isEnabled(resource, context.config))
+      .map(({ uri, name, description, mimeType }) => ({
+        uri,
+        name,
+        description,
+        mimeType,
+      })),
+  }));
+
+  // Handle resource template listing
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+    resourceTemplates: getEnabledResourceTemplates(context.config).map(
+      ({ uriTemplate, name, description, mimeType }) => ({
+        uriTemplate,
+        name,
+        description,
+        mimeType,
+      }),
+    ),
+  }));
+
+  // Handle resource reads
+  server.setRequestHandler(ReadResourceRequestSchema, (request) =>
+    logger.runInSession(server, async () => {
+      const { uri } = request.params;
+      const resource = resolveResource(uri, context.config);
+      if (!resource) {
+        throw new McpError(ErrorCode.InvalidParams, `Resource '${uri}' not found`);
+      }
+
+      try {
+        const text = await resource.read(context);
+        return {
+          contents: [
+            {
+              uri,
+              mimeType: resource.mimeType,
+              text,
+            },
+          ],
+        };
+      } catch (error: any) {
+        if (error instanceof ResourceNotFoundError) {
+          throw new McpError(ErrorCode.InvalidParams, error.message);
+        }
+        throw new McpError(ErrorCode.InternalError, error.message);
+      }
+    }),
+  );
+}
+
+export { resources, resourceTemplates };
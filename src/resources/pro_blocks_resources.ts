@@ -0,0 +1,114 @@
+/**
+ * Starwind Pro Blocks Resources
+ * Exposes the Starwind Pro block manifest as MCP resources
+ */
+
+import { completeProBlockId, completeProCategory } from "../completions/providers.js";
+import {
+  getManifest,
+  type ManifestBlock,
+  searchProBlocksTool,
+} from "../tools/search_pro_blocks_tool.js";
+import { ResourceNotFoundError, type StaticResource, type TemplateResource } from "./types.js";
+
+/**
+ * Format a manifest block for consumption, with an absolute preview URL
+ */
+function formatBlock(block: ManifestBlock, baseUrl: string) {
+  return {
+    id: block.id,
+    name: block.name,
+    description: block.description,
+    categories: block.categories,
+    keywords: block.keywords,
+    plan: block.plan,
+    installCommand: block.installCommand + " --yes",
+    previewUrl: `${baseUrl}${block.previewUrl}`,
+  };
+}
+
+/**
+ * Summary of all Pro blocks
+ */
+export const proBlocksListResource: StaticResource = {
+  uri: "starwind-pro://blocks",
+  name: "Starwind Pro blocks",
+  description: "JSON list of all Starwind Pro blocks with their categories and plan",
+  mimeType: "application/json",
+  tool: searchProBlocksTool.name,
+  read: async (context) => {
+    const { manifest } = await getManifest(context);
+    return JSON.stringify(
+      {
+        totalBlocks: manifest.totalBlocks,
+        categories: manifest.categories,
+        blocks: manifest.blocks.map((block) => ({
+          id: block.id,
+          name: block.name,
+          categories: block.categories,
+          plan: block.plan,
+        })),
+      },
+      null,
+      2,
+    );
+  },
+};
+
+/**
+ * Details for a single Pro block
+ */
+export const proBlockTemplate: TemplateResource = {
+  uriTemplate: "starwind-pro://blocks/{id}",
+  name: "Starwind Pro block",
+  description:
+    "JSON details and install command for a single Pro block, e.g. starwind-pro://blocks/hero-01",
+  mimeType: "application/json",
+  tool: searchProBlocksTool.name,
+  read: async ({ id }, context) => {
+    const { manifest } = await getManifest(context);
+    const normalized = id.toLowerCase().trim();
+    const block = manifest.blocks.find((b) => b.id.toLowerCase() === normalized);
+    if (!block) {
+      throw new ResourceNotFoundError(`Unknown Starwind Pro block: '${id}'`);
+    }
+
+    return JSON.stringify(formatBlock(block, manifest.baseUrl), null, 2);
+  },
+  completions: {
+    id: completeProBlockId,
+  },
+};
+
+/**
+ * All Pro blocks in a category
+ */
+export const proCategoryTemplate: TemplateResource = {
+  uriTemplate: "starwind-pro://categories/{category}",
+  name: "Starwind Pro block category",
+  description: "JSON list of the Pro blocks in a category, e.g. starwind-pro://categories/pricing",
+  mimeType: "application/json",
+  tool: searchProBlocksTool.name,
+  read: async ({ category }, context) => {
+    const { manifest } = await getManifest(context);
+    const normalized = category.toLowerCase().trim();
+    if (!manifest.categories.some((c) => c.toLowerCase() === normalized)) {
+      throw new ResourceNotFoundError(`Unknown Starwind Pro block category: '${category}'`);
+    }
+
+    const blocks = manifest.blocks.filter((block) =>
+      block.categories.some((c) => c.toLowerCase() === normalized),
+    );
+    return JSON.stringify(
+      {
+        category: normalized,
+        blocks: blocks.map((block) => formatBlock(block, manifest.baseUrl)),
+      },
+      null,
+      2,
+    );
+  },
+  completions: {
+    category: completeProCategory,
+  },
+};
@@ -0,0 +1,47 @@
+/**
+ * Shared resource definition types
+ */
+
+import type { CompletionProvider } from "../completions/providers.js";
+import type { ToolContext } from "../tools/define_tool.js";
+
+/**
+ * A resource with a fixed URI, listed in resources/list
+ */
+export interface StaticResource {
+  uri: string;
+  name: string;
+  description: string;
+  mimeType: string;
+  /** Read the resource contents */
+  read: (context: ToolContext) => Promise<string>;
+  /** Tool whose data this resource exposes, disabling the tool also disables the resource */
+  tool?: string;
+}
+
+/**
+ * A parameterized resource, listed in resources/templates/list
+ */
+export interface TemplateResource {
+  /** RFC 6570 URI template, e.g. starwind://docs/{topic} */
+  uriTemplate: string;
+  name: string;
+  description: string;
+  mimeType: string;
+  /** Read the resource contents for the variables matched from the URI */
+  read: (variables: Record<string, string>, context: ToolContext) => Promise<string>;
+  /** Completion providers for the template variables */
+  completions?: Record<string, CompletionProvider>;
+  /** Tool whose data this template exposes, disabling the tool also disables the template */
+  tool?: string;
+}
+
+/**
+ * Error thrown when a URI matches a template but the referenced item does not exist
+ */
+export class ResourceNotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ResourceNotFoundError";
+  }
+}
@@ -1,50 +1,86 @@
 #!/usr/bin/env node
-import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 
-import config from "./config/settings.js";
-import { setupTools, tools } from "./tools/index.js";
-
-/**
- * Initialize the MCP server with basic capabilities
- */
-// Import tools for capabilities registration
-// Dynamically build capabilities object from tools map
-const toolCapabilities: Record<string, any> = {};
-Array.from(tools.entries()).forEach(([name, tool]) => {
-  toolCapabilities[name] = {
-    inputSchema: (tool as any).inputSchema,
-  };
-});
-
-const server = new Server(
-  {
-    name: config.server.name,
-    version: config.server.version,
-  },
-  {
-    capabilities: {
-      resources: {},
-      tools: toolCapabilities,
-    },
-  },
-);
-
-// Setup tool handlers
-setupTools(server);
-
-// Create and connect the transport
-const transport = new StdioServerTransport();
-
-server
-  .connect(transport)
-  .then(() => {
-    console.error(`Starwind UI MCP Server running (using stdio transport)`);
-  })
-  .catch(console.error);
-
-// Handle cleanup
-process.on("SIGINT", async () => {
-  await server.close();
-  process.exit(0);
-});
+import { loadConfig } from "./config/load_config.js";
+import type { Config } from "./config/settings.js";
+import { createServer } from "./create_server.js";
+import { getEnabledTools } from "./tools/index.js";
+import { prefetchCache } from "./tools/starwind_refresh_cache_tool.js";
+import { startHttpTransport } from "./transports/http.js";
+import { logger } from "./utils/logger.js";
+import { configureNetwork, loadCaCertificates } from "./utils/proxy.js";
+import { RateLimiter } from "./utils/rate_limiter.js";
+import { createResponseCache } from "./utils/response_cache.js";
+import { getSnapshotPath, loadSnapshot } from "./utils/snapshot.js";
+
+let config: Config;
+try {
+  // Defaults < starwind-mcp.config.json < STARWIND_MCP_* env vars < CLI flags
+  config = loadConfig();
+  // Fail fast on tool names that don't exist rather than when the first client connects
+  getEnabledTools(config);
+  // Likewise a missing or broken offline snapshot
+  if (config.offline.enabled) loadSnapshot(getSnapshotPath(config));
+  // And CA files that can't be read
+  loadCaCertificates(config);
+} catch (error: any) {
+  process.stderr.write(`${error.message}\n`);
+  process.exit(1);
+}
+
+logger.configure({ level: config.logging.level, file: config.logging.file });
+
+// Route every request through the configured proxy and trust the configured CAs
+configureNetwork(config);
+
+if (config.offline.enabled) {
+  const { createdAt } = loadSnapshot(getSnapshotPath(config));
+  logger.info(`Offline mode: serving docs and the Pro manifest from the snapshot of ${createdAt}`);
+}
+
+// One cache and one set of rate limits for every session, so HTTP clients share fetched docs
+// and request budgets
+const context = { config, cache: createResponseCache(config), limiter: new RateLimiter() };
+
+if (config.transport === "http") {
+  // Serve over Streamable HTTP (with SSE fallback), one server instance per client session
+  startHttpTransport(() => createServer(context), config.http)
+    .then((handle) => {
+      logger.info(`Starwind UI MCP Server running at ${handle.url}/mcp (using http transport)`);
+      if (config.cache.prefetch) void prefetchCache(context);
+
+      // Handle cleanup
+      process.on("SIGINT", async () => {
+        await handle.close();
+        process.exit(0);
+      });
+    })
+    .catch((error) => {
+      logger.error(`Failed to start http transport: ${error.message}`);
+      process.exit(1);
+    });
+} else {
+  // stdout carries the JSON-RPC stream, so keep any stray console output off it
+  logger.captureConsole();
+
+  /**
+   * Initialize the MCP server and connect it over stdio
+   */
+  const server = createServer(context);
+  const transport = new StdioServerTransport();
+
+  server
+    .connect(transport)
+    .then(() => {
+      logger.info(`Starwind UI MCP Server running (using stdio transport)`);
+      // Warm the cache in the background so the first tool call doesn't wait for the network
+      if (config.cache.prefetch) void prefetchCache(context);
+    })
+    .catch((error) => logger.error(`Failed to start stdio transport: ${error.message}`));
+
+  // Handle cleanup
+  process.on("SIGINT", async () => {
+    await server.close();
+    process.exit(0);
+  });
+}
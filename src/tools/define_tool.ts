@@ -0,0 +1,87 @@
+import type { ToolAnnotations } from "@modelcontextprotocol/sdk/types.js";
+
+import { type Config, DEFAULT_CONFIG } from "../config/settings.js";
+import type { FromSchema, JsonObjectSchema, JsonSchema } from "../utils/json_schema.js";
+import { RateLimiter } from "../utils/rate_limiter.js";
+import { MemoryResponseCache, type ResponseCache } from "../utils/response_cache.js";
+
+/**
+ * Server state injected into every tool call
+ */
+export interface ToolContext {
+  config: Config;
+  /** Cache of fetched documents, shared by all tools */
+  cache: ResponseCache;
+  /** Per-host request budgets, shared by all tools */
+  limiter: RateLimiter;
+}
+
+/**
+ * Context with the built-in defaults and an in-memory cache, used when a handler is called
+ * directly (e.g. in tests)
+ */
+export const DEFAULT_TOOL_CONTEXT: ToolContext = {
+  config: DEFAULT_CONFIG,
+  cache: new MemoryResponseCache(),
+  limiter: new RateLimiter(),
+};
+
+/**
+ * Whether `tools.allow` and `tools.deny` leave a tool enabled
+ * Resources, completions and prefetching that only serve a tool use this to follow its setting.
+ */
+export function isToolEnabled(config: Config, name: string): boolean {
+  const { allow, deny = [] } = config.tools;
+  return (!allow || allow.includes(name)) && !deny.includes(name);
+}
+
+/**
+ * A tool definition whose handler argument type is derived from its input schema
+ */
+export interface ToolDefinition<I extends JsonObjectSchema = JsonObjectSchema, R = unknown> {
+  name: string;
+  title: string;
+  description: string;
+  annotations: ToolAnnotations;
+  /** JSON Schema for the arguments - validated before the handler is called */
+  inputSchema: I;
+  /** JSON Schema for the structured result */
+  outputSchema: JsonSchema & { type: "object" };
+  /** Concise text summary of a result */
+  summarize(result: R): string;
+  /** Called with arguments that already passed validation against `inputSchema` */
+  handler(args: FromSchema<I>, context: ToolContext): Promise<R>;
+}
+
+/**
+ * Any tool definition, as stored in the registry
+ */
+export type AnyToolDefinition = ToolDefinition<JsonObjectSchema, any>;
+
+/**
+ * Arguments accepted by a tool, derived from its input schema
+ */
+export type ToolArgs<T> = T extends ToolDefinition<infer I, any> ? FromSchema<I> : never;
+
+/**
+ * Define a tool with its input schema as the source of truth for the handler argument types
+ *
+ * @example
+ * ```ts
+ * export const echoTool = defineTool({
+ *   name: "echo",
+ *   ...
+ *   inputSchema: {
+ *     type: "object",
+ *     properties: { text: { type: "string" } },
+ *     required: ["text"],
+ *   },
+ *   handler: async (args) => args.text, // args: { text: string }
+ * });
+ * ```
+ */
+export function defineTool<const I extends JsonObjectSchema, R>(
+  definition: ToolDefinition<I, R>,
+): ToolDefinition<I, R> {
+  return definition;
+}
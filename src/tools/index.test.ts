@@ -0,0 +1,350 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { type Config, DEFAULT_CONFIG } from "../config/settings";
+import { RateLimiter } from "../utils/rate_limiter";
+import { MemoryResponseCache } from "../utils/response_cache";
+import { getEnabledTools, setupTools } from "./index";
+import { resetProBlocksToolState } from "./search_pro_blocks_tool";
+import { getAvailableComponents, resetAddToolState } from "./starwind_add_tool";
+import { resetDocsToolState, starwindDocsTool } from "./starwind_docs_tool";
+
+const LLMS_URL = "https://starwind.dev/llms.txt";
+const LLMS_TXT = `# Starwind UI
+
+- [Button](https://starwind.dev/docs/components/button)
+- [Card](https://starwind.dev/docs/components/card)
+`;
+
+const MANIFEST = {
+  $schema: "https://pro.starwind.dev/schema.json",
+  name: "starwind-pro",
+  version: "1.0.0",
+  generatedAt: "2026-01-01T00:00:00.000Z",
+  baseUrl: "https://pro.starwind.dev",
+  totalBlocks: 1,
+  categories: ["hero"],
+  blocks: [
+    {
+      id: "hero-01",
+      name: "Hero 01",
+      description: "A simple hero",
+      categories: ["hero"],
+      keywords: ["landing"],
+      plan: "free",
+      installCommand: "npx starwind@latest add @starwind-pro/hero-01",
+      previewUrl: "/blocks/hero-01",
+    },
+  ],
+};
+
+function mockFetch(url: string) {
+  if (url === "https://starwind.dev/llms.txt") return new Response(LLMS_TXT);
+  if (url === "https://pro.starwind.dev/r/manifest.json") return Response.json(MANIFEST);
+  if (url === "https://starwind.dev/docs/components/button/markdown.md") {
+    return new Response("# Button\n\nButton docs");
+  }
+  return new Response("Not Found", { status: 404 });
+}
+
+/**
+ * Connect a client to a server with its own tools configuration
+ */
+async function connectClient(config: Config): Promise<Client> {
+  const server = new Server({ name: "test", version: "0.0.0" }, { capabilities: { tools: {} } });
+  setupTools(server, { config, cache: new MemoryResponseCache(), limiter: new RateLimiter() });
+  const client = new Client({ name: "test-client", version: "0.0.0" });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  return client;
+}
+
+describe("setupTools", () => {
+  let client: Client;
+
+  beforeEach(async () => {
+    resetDocsToolState();
+    resetAddToolState();
+    resetProBlocksToolState();
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (url: string) => mockFetch(url)),
+    );
+
+    const server = new Server({ name: "test", version: "0.0.0" }, { capabilities: { tools: {} } });
+    setupTools(server);
+    client = new Client({ name: "test-client", version: "0.0.0" });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+
+    // Listing tools lets the client validate structuredContent against each outputSchema
+    await client.listTools();
+  });
+
+  afterEach(async () => {
+    await client.close();
+    vi.unstubAllGlobals();
+  });
+
+  it("should list titles and annotations for every tool", async () => {
+    const { tools } = await client.listTools();
+
+    tools.forEach((tool) => {
+      expect(tool.title).toBeTruthy();
+      expect(tool.annotations?.title).toBe(tool.title);
+      // starwind_refresh_cache rewrites the cache, everything else only reads
+      expect(tool.annotations?.readOnlyHint).toBe(tool.name !== "starwind_refresh_cache");
+    });
+    const docs = tools.find((tool) => tool.name === "starwind_docs");
+    expect(docs?.annotations?.openWorldHint).toBe(true);
+  });
+
+  it("should declare an output schema for every tool", async () => {
+    const { tools } = await client.listTools();
+
+    expect(tools).toHaveLength(6);
+    tools.forEach((tool) => {
+      expect(tool.outputSchema?.type).toBe("object");
+    });
+  });
+
+  it("should return structured content and a text summary for starwind_init", async () => {
+    const result = await client.callTool({
+      name: "starwind_init",
+      arguments: { packageManager: "pnpm" },
+    });
+    const structured = result.structuredContent as { command: string };
+    const [content] = result.content as Array<{ type: string; text: string }>;
+
+    expect(structured.command).toBe("pnpm dlx starwind@latest init --defaults --pro");
+    expect(content.text).toContain(structured.command);
+    expect(() => JSON.parse(content.text)).toThrow();
+  });
+
+  it("should return structured content for starwind_add", async () => {
+    const result = await client.callTool({
+      name: "starwind_add",
+      arguments: { components: ["button", "zzzz"], packageManager: "npm" },
+    });
+    const structured = result.structuredContent as {
+      command: string;
+      componentsToInstall: string[];
+    };
+    const [content] = result.content as Array<{ type: string; text: string }>;
+
+    expect(structured.componentsToInstall).toEqual(["button"]);
+    expect(content.text).toContain(structured.command);
+    expect(content.text).toContain("Warning");
+  });
+
+  it("should summarize failed starwind_add results with suggestions", async () => {
+    const result = await client.callTool({
+      name: "starwind_add",
+      arguments: { components: ["butt"] },
+    });
+    const [content] = result.content as Array<{ type: string; text: string }>;
+
+    expect((result.structuredContent as { success: boolean }).success).toBe(false);
+    expect(content.text).toContain("did you mean button");
+  });
+
+  it("should return the documentation as text for starwind_docs", async () => {
+    const result = await client.callTool({ name: "starwind_docs", arguments: { topic: "button" } });
+    const [content] = result.content as Array<{ type: string; text: string }>;
+
+    expect((result.structuredContent as { pageType: string }).pageType).toBe("component");
+    expect(content.text).toContain("Button docs");
+  });
+
+  it("should return structured blocks for search_starwind_pro_blocks", async () => {
+    const result = await client.callTool({
+      name: "search_starwind_pro_blocks",
+      arguments: { category: "hero" },
+    });
+    const structured = result.structuredContent as { blocks: Array<{ id: string }> };
+    const [content] = result.content as Array<{ type: string; text: string }>;
+
+    expect(structured.blocks.map((b) => b.id)).toEqual(["hero-01"]);
+    expect(content.text).toContain("Hero 01");
+  });
+
+  it("should return the overview for search_starwind_pro_blocks without filters", async () => {
+    const result = await client.callTool({ name: "search_starwind_pro_blocks", arguments: {} });
+    const [content] = result.content as Array<{ type: string; text: string }>;
+
+    expect((result.structuredContent as { totalBlocks: number }).totalBlocks).toBe(1);
+    expect(content.text).toContain("Categories: hero");
+  });
+
+  it("should search a manifest with malformed blocks and report them as warnings", async () => {
+    const { keywords: _keywords, ...withoutKeywords } = MANIFEST.blocks[0];
+    const manifest = {
+      ...MANIFEST,
+      version: "2.0.0",
+      blocks: [{ ...withoutKeywords, id: "hero-02" }, { id: "broken" }],
+    };
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => Response.json(manifest)),
+    );
+
+    const result = await client.callTool({
+      name: "search_starwind_pro_blocks",
+      arguments: { query: "hero" },
+    });
+    const structured = result.structuredContent as {
+      blocks: Array<{ id: string }>;
+      warnings: string[];
+    };
+    const [content] = result.content as Array<{ type: string; text: string }>;
+
+    expect(structured.blocks.map((b) => b.id)).toEqual(["hero-02"]);
+    expect(structured.warnings).toHaveLength(2);
+    expect(structured.warnings[1]).toContain("Skipped block broken");
+    expect(content.text).toContain("Warning: Unsupported Starwind Pro manifest version");
+  });
+
+  it("should reject arguments of the wrong type with an error naming the field", async () => {
+    await expect(
+      client.callTool({ name: "starwind_add", arguments: { components: "button" } }),
+    ).rejects.toMatchObject({
+      code: ErrorCode.InvalidParams,
+      message: expect.stringContaining("components: expected array, received string"),
+    });
+  });
+
+  it("should reject missing required arguments and unknown enum values", async () => {
+    await expect(
+      client.callTool({ name: "starwind_add", arguments: { packageManager: "cargo" } }),
+    ).rejects.toMatchObject({
+      code: ErrorCode.InvalidParams,
+      message: expect.stringMatching(/components: is required; packageManager: must be one of/),
+    });
+  });
+
+  it("should inject the server config into tool calls", async () => {
+    const fetchMock = vi.fn(async (url: string) =>
+      url === "https://staging.starwind.dev/llms.txt"
+        ? new Response(LLMS_TXT)
+        : new Response("Not Found", { status: 404 }),
+    );
+    vi.stubGlobal("fetch", fetchMock);
+    resetDocsToolState();
+
+    const config = {
+      ...DEFAULT_CONFIG,
+      docs: { ...DEFAULT_CONFIG.docs, baseUrl: "https://staging.starwind.dev" },
+    };
+    const stagingClient = await connectClient(config);
+
+    const result = await stagingClient.callTool({ name: "starwind_docs", arguments: {} });
+
+    expect((result.structuredContent as { url: string }).url).toBe(
+      "https://staging.starwind.dev/llms.txt",
+    );
+    expect(fetchMock).toHaveBeenCalledWith(
+      "https://staging.starwind.dev/llms.txt",
+      expect.anything(),
+    );
+    await stagingClient.close();
+  });
+
+  it("should share one llms.txt download between tools called in parallel", async () => {
+    const fetchMock = vi.fn(async (url: string) => mockFetch(url));
+    vi.stubGlobal("fetch", fetchMock);
+    const context = {
+      config: DEFAULT_CONFIG,
+      cache: new MemoryResponseCache(),
+      limiter: new RateLimiter(),
+    };
+
+    const [docs, { components }] = await Promise.all([
+      starwindDocsTool.handler({}, context),
+      getAvailableComponents(context),
+    ]);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(docs.documentation).toBe(LLMS_TXT);
+    expect(components).toEqual(["button", "card"]);
+    expect(context.limiter.status(LLMS_URL, DEFAULT_CONFIG).remaining).toBe(
+      DEFAULT_CONFIG.docs.rateLimit - 1,
+    );
+  });
+
+  it("should serve expired docs as stale and revalidate them with a conditional request", async () => {
+    const fetchMock = vi.fn(async (_url: string, init?: RequestInit) => {
+      const headers = (init?.headers ?? {}) as Record<string, string>;
+      return headers["If-None-Match"] === '"v1"'
+        ? new Response(null, { status: 304 })
+        : new Response(LLMS_TXT, { headers: { ETag: '"v1"' } });
+    });
+    vi.stubGlobal("fetch", fetchMock);
+    resetDocsToolState();
+    const context = {
+      config: {
+        ...DEFAULT_CONFIG,
+        docs: {
+          ...DEFAULT_CONFIG.docs,
+          cacheTtl: { ...DEFAULT_CONFIG.docs.cacheTtl, standard: 0 },
+        },
+      },
+      cache: new MemoryResponseCache(),
+      limiter: new RateLimiter(),
+    };
+
+    const first = await starwindDocsTool.handler({}, context);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    const second = await starwindDocsTool.handler({}, context);
+
+    expect(first.source).toBe("network");
+    expect(second.documentation).toBe(first.documentation);
+    expect(second.source).toBe("cache");
+    expect(second.stale).toBe(true);
+    await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(2));
+    expect(fetchMock.mock.calls[1][1]?.headers).toEqual({ "If-None-Match": '"v1"' });
+  });
+
+  it("should only expose allowed tools", async () => {
+    const restricted = await connectClient({
+      ...DEFAULT_CONFIG,
+      tools: { allow: ["starwind_docs", "starwind_add"] },
+    });
+
+    const { tools } = await restricted.listTools();
+    expect(tools.map((tool) => tool.name).sort()).toEqual(["starwind_add", "starwind_docs"]);
+
+    await expect(
+      restricted.callTool({ name: "search_starwind_pro_blocks", arguments: {} }),
+    ).rejects.toMatchObject({
+      code: ErrorCode.MethodNotFound,
+      message: expect.stringContaining("disabled by the server configuration"),
+    });
+    await restricted.close();
+  });
+
+  it("should hide denied tools", async () => {
+    const restricted = await connectClient({
+      ...DEFAULT_CONFIG,
+      tools: { deny: ["search_starwind_pro_blocks"] },
+    });
+
+    const { tools } = await restricted.listTools();
+    expect(tools.map((tool) => tool.name)).not.toContain("search_starwind_pro_blocks");
+    expect(tools).toHaveLength(5);
+    await restricted.close();
+  });
+});
+
+describe("getEnabledTools", () => {
+  it("should reject unknown tool names", () => {
+    expect(() =>
+      getEnabledTools({
+        ...DEFAULT_CONFIG,
+        tools: { allow: ["starwind_docs", "starwind_search"] },
+      }),
+    ).toThrow("Unknown tool(s) in the tools configuration: starwind_search");
+  });
+});
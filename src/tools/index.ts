@@ -6,15 +6,26 @@ import {
   McpError,
 } from "@modelcontextprotocol/sdk/types.js";
 
+import type { Config } from "../config/settings.js";
+import { validateSchema } from "../utils/json_schema.js";
+import { logger } from "../utils/logger.js";
+import {
+  type AnyToolDefinition,
+  DEFAULT_TOOL_CONTEXT,
+  isToolEnabled,
+  type ToolContext,
+} from "./define_tool.js";
 import { searchProBlocksTool } from "./search_pro_blocks_tool.js";
 import { starwindAddTool } from "./starwind_add_tool.js";
 import { starwindDocsTool } from "./starwind_docs_tool.js";
 import { starwindInitTool } from "./starwind_init_tool.js";
+import { starwindProjectStatusTool } from "./starwind_project_status_tool.js";
+import { starwindRefreshCacheTool } from "./starwind_refresh_cache_tool.js";
 
 /**
  * Collection of available tools
  */
-const tools = new Map();
+const tools = new Map<string, AnyToolDefinition>();
 
 // Register starwind_docs tool - fetches live documentation from starwind.dev
 tools.set(starwindDocsTool.name, starwindDocsTool);
@@ -28,45 +39,131 @@ tools.set(searchProBlocksTool.name, searchProBlocksTool);
 // Register starwind_init tool - dedicated project initialization
 tools.set(starwindInitTool.name, starwindInitTool);
 
+// Register starwind_refresh_cache tool - force-refreshes cached docs and the Pro manifest
+tools.set(starwindRefreshCacheTool.name, starwindRefreshCacheTool);
+
+// Register starwind_project_status tool - inspects the target project's Starwind setup
+tools.set(starwindProjectStatusTool.name, starwindProjectStatusTool);
+
+/**
+ * Get the tools exposed under a configuration
+ * `tools.allow` (if set) limits the registry to the listed tools, then `tools.deny` removes tools.
+ *
+ * @param config - The server configuration
+ * @returns The enabled tools, in registration order
+ * @throws {Error} If the allowlist or denylist names a tool that doesn't exist
+ */
+export function getEnabledTools(config: Config): Map<string, AnyToolDefinition> {
+  const { allow, deny = [] } = config.tools;
+
+  const unknown = [...(allow ?? []), ...deny].filter((name) => !tools.has(name));
+  if (unknown.length > 0) {
+    throw new Error(
+      `Unknown tool(s) in the tools configuration: ${[...new Set(unknown)].join(", ")}. Available tools: ${Array.from(tools.keys()).join(", ")}`,
+    );
+  }
+
+  const enabled = new Map<string, AnyToolDefinition>();
+  for (const [name, tool] of tools) {
+    if (isToolEnabled(config, name)) enabled.set(name, tool);
+  }
+  return enabled;
+}
+
 /**
  * Set up the tools for the MCP server
  * @param server - The MCP server instance
+ * @param context - Configuration and cache injected into every tool call
  */
-export function setupTools(server: Server): void {
+export function setupTools(server: Server, context: ToolContext = DEFAULT_TOOL_CONTEXT): void {
+  const enabledTools = getEnabledTools(context.config);
+
   // Register tool capabilities with the server
   // Note: We can't modify server.capabilities directly
   // The capabilities are set during server initialization
 
   // Handle tool listing
   server.setRequestHandler(ListToolsRequestSchema, async () => ({
-    tools: Array.from(tools.entries()).map(([name, tool]) => ({
+    tools: Array.from(enabledTools.entries()).map(([name, tool]) => ({
       name,
-      description: (tool as any).description,
-      inputSchema: (tool as any).inputSchema,
+      title: tool.title,
+      description: tool.description,
+      inputSchema: tool.inputSchema,
+      outputSchema: tool.outputSchema,
+      annotations: tool.annotations,
     })),
   }));
 
   // Handle tool execution
-  server.setRequestHandler(CallToolRequestSchema, async (request) => {
-    const tool = tools.get(request.params.name);
-    if (!tool) {
-      throw new McpError(ErrorCode.MethodNotFound, `Tool '${request.params.name}' not found`);
-    }
-
-    try {
-      const result = await (tool as any).handler(request.params.arguments);
-      return {
-        content: [
-          {
-            type: "text",
-            text: JSON.stringify(result, null, 2),
-          },
-        ],
-      };
-    } catch (error: any) {
-      throw new McpError(ErrorCode.InternalError, error.message);
-    }
-  });
+  server.setRequestHandler(CallToolRequestSchema, (request) =>
+    logger.runInSession(server, async () => {
+      const tool = enabledTools.get(request.params.name);
+      if (!tool && tools.has(request.params.name)) {
+        throw new McpError(
+          ErrorCode.MethodNotFound,
+          `Tool '${request.params.name}' is disabled by the server configuration`,
+        );
+      }
+      if (!tool) {
+        throw new McpError(ErrorCode.MethodNotFound, `Tool '${request.params.name}' not found`);
+      }
+
+      // Reject malformed arguments before they reach the handler
+      const args = request.params.arguments ?? {};
+      const issues = validateSchema(tool.inputSchema, args);
+      if (issues.length > 0) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Invalid arguments for tool '${tool.name}': ${issues
+            .map((issue) => `${issue.path}: ${issue.message}`)
+            .join("; ")}`,
+        );
+      }
+
+      try {
+        const result = await tool.handler(args, context);
+        return {
+          content: [
+            {
+              type: "text",
+              text: tool.summarize(result),
+            },
+          ],
+          structuredContent: result,
+        };
+      } catch (error: any) {
+        throw new McpError(ErrorCode.InternalError, error.message);
+      }
+    }),
+  );
 }
 
 export { tools };
+
+export type { AnyToolDefinition, ToolArgs, ToolContext, ToolDefinition } from "./define_tool.js";
+export type {
+  ProBlockResult,
+  ProRequirements,
+  SearchProBlocksArgs,
+  SearchProBlocksMatches,
+  SearchProBlocksOverview,
+  SearchProBlocksResult,
+} from "./search_pro_blocks_tool.js";
+export type {
+  StarwindAddArgs,
+  StarwindAddFailure,
+  StarwindAddResult,
+  StarwindAddSuccess,
+} from "./starwind_add_tool.js";
+export type { StarwindDocsArgs, StarwindDocsResult } from "./starwind_docs_tool.js";
+export type { StarwindInitArgs, StarwindInitResult } from "./starwind_init_tool.js";
+export type {
+  StarwindProjectStatusArgs,
+  StarwindProjectStatusResult,
+} from "./starwind_project_status_tool.js";
+export type {
+  RefreshChanges,
+  RefreshedDocument,
+  StarwindRefreshCacheArgs,
+  StarwindRefreshCacheResult,
+} from "./starwind_refresh_cache_tool.js";
@@ -17,6 +17,14 @@ describe("searchProBlocksTool", () => {
       expect(searchProBlocksTool.description).toContain("Starwind Pro");
     });
 
+    it("should be annotated as a read-only tool", () => {
+      expect(searchProBlocksTool.annotations.title).toBe(searchProBlocksTool.title);
+      expect(searchProBlocksTool.annotations.readOnlyHint).toBe(true);
+      expect(searchProBlocksTool.annotations.destructiveHint).toBe(false);
+      expect(searchProBlocksTool.annotations.idempotentHint).toBe(true);
+      expect(searchProBlocksTool.annotations.openWorldHint).toBe(true);
+    });
+
     it("should have correct input schema", () => {
       expect(searchProBlocksTool.inputSchema.type).toBe("object");
       expect(searchProBlocksTool.inputSchema.properties).toHaveProperty("query");
@@ -3,144 +3,166 @@
  * Searches and filters Starwind Pro blocks from the manifest
  */
 
+import { WORKFLOW_RULES } from "../prompts/workflow.js";
+import { HttpError } from "../utils/http_client.js";
+import { logger } from "../utils/logger.js";
+import {
+  type Manifest,
+  type ManifestBlock,
+  type ParsedManifest,
+  parseManifest,
+} from "../utils/pro_manifest.js";
+import { fetchCached, type FetchCachedResult } from "../utils/response_cache.js";
+import {
+  DEFAULT_TOOL_CONTEXT,
+  defineTool,
+  type ToolArgs,
+  type ToolContext,
+} from "./define_tool.js";
+
+export type { Manifest, ManifestBlock };
+
+/**
+ * Search tool arguments, derived from the input schema
+ */
+export type SearchProBlocksArgs = ToolArgs<typeof searchProBlocksTool>;
+
 /**
- * Manifest block structure from pro.starwind.dev
+ * Block as returned in search results
  */
-interface ManifestBlock {
+export interface ProBlockResult {
   id: string;
   name: string;
   description: string;
   categories: string[];
-  keywords: string[];
   plan: "free" | "pro";
+  /** Install command including --yes */
   installCommand: string;
+  /** Absolute preview URL */
   previewUrl: string;
 }
 
 /**
- * Full manifest structure
+ * Pro initialization requirements included in every response
  */
-interface Manifest {
-  $schema: string;
-  name: string;
-  version: string;
-  generatedAt: string;
-  baseUrl: string;
-  totalBlocks: number;
-  categories: string[];
-  blocks: ManifestBlock[];
+export interface ProRequirements {
+  important: string;
+  initCommand: string;
+  note: string;
+  starwindAddTip?: string;
 }
 
 /**
- * Interface for search tool arguments
+ * Result of the search tool when no filters are provided
  */
-export interface SearchProBlocksArgs {
-  /** Search query to match against name, description, and keywords */
-  query?: string;
-  /** Filter by category */
-  category?: string;
-  /** Filter by plan type */
-  plan?: "free" | "pro";
-  /** Maximum results to return (default: 10) */
-  limit?: number;
+export interface SearchProBlocksOverview {
+  message: string;
+  availableCategories: string[];
+  totalBlocks: number;
+  source: "cache" | "network" | "snapshot";
+  /** Set when the cached manifest is past its TTL and being refreshed in the background */
+  stale?: boolean;
+  /** When the offline snapshot was taken, set when the manifest came from it */
+  snapshotDate?: string;
+  /** Problems with the manifest, e.g. skipped blocks or an unsupported version */
+  warnings?: string[];
+  hint: string;
+  proRequirements: ProRequirements;
 }
 
 /**
- * Cache for manifest data
+ * Result of the search tool for a query and/or filters
  */
-interface ManifestCache {
-  data: Manifest;
-  timestamp: number;
-  expiresAt: number;
+export interface SearchProBlocksMatches {
+  query: string | null;
+  filters: {
+    category: string | null;
+    plan: "free" | "pro" | null;
+  };
+  totalMatches: number;
+  resultsReturned: number;
+  blocks: ProBlockResult[];
+  availableCategories: string[];
+  source: "cache" | "network" | "snapshot";
+  /** Set when the cached manifest is past its TTL and being refreshed in the background */
+  stale?: boolean;
+  /** When the offline snapshot was taken, set when the manifest came from it */
+  snapshotDate?: string;
+  /** Problems with the manifest, e.g. skipped blocks or an unsupported version */
+  warnings?: string[];
+  cacheInfo?: { age: string; remainingTtl: string };
+  message?: string;
+  hint?: string;
+  proRequirements: ProRequirements;
 }
 
-let manifestCache: ManifestCache | null = null;
-const CACHE_TTL = 60 * 60 * 1000; // 1 hour in milliseconds
-const MANIFEST_URL = "https://pro.starwind.dev/r/manifest.json";
-
 /**
- * Rate limiter for manifest requests
+ * Result of the search tool
  */
-class RateLimiter {
-  private calls: number[] = [];
-  private readonly maxCalls: number;
-  private readonly windowMs: number;
-
-  constructor(maxCalls: number = 3, windowMs: number = 60 * 1000) {
-    this.maxCalls = maxCalls;
-    this.windowMs = windowMs;
-  }
-
-  canMakeCall(): boolean {
-    this.cleanup();
-    return this.calls.length < this.maxCalls;
-  }
+export type SearchProBlocksResult = SearchProBlocksOverview | SearchProBlocksMatches;
 
-  recordCall(): void {
-    this.calls.push(Date.now());
-  }
-
-  getResetTimeSeconds(): number {
-    this.cleanup();
-    if (this.calls.length === 0) return 0;
-    const oldestCall = this.calls[0];
-    const resetTime = oldestCall + this.windowMs;
-    return Math.max(0, Math.ceil((resetTime - Date.now()) / 1000));
-  }
-
-  private cleanup(): void {
-    const now = Date.now();
-    this.calls = this.calls.filter((time) => now - time < this.windowMs);
-  }
-}
-
-let rateLimiter = new RateLimiter(3);
+// The last manifest body parsed, so an unchanged manifest is validated (and warned about) once
+let parsedManifest: { body: string; parsed: ParsedManifest } | null = null;
 
 /**
  * Reset tool state (for testing purposes)
  */
 export function resetProBlocksToolState(): void {
-  manifestCache = null;
-  rateLimiter = new RateLimiter(3);
+  void DEFAULT_TOOL_CONTEXT.cache.clear();
+  DEFAULT_TOOL_CONTEXT.limiter.reset();
+  parsedManifest = null;
 }
 
 /**
- * Fetch manifest from pro.starwind.dev with caching
+ * Validate a manifest body, reusing the previous result if the body is unchanged
  */
-async function getManifest(): Promise<{ manifest: Manifest; source: "cache" | "network" }> {
-  // Check cache first
-  if (manifestCache && Date.now() < manifestCache.expiresAt) {
-    return { manifest: manifestCache.data, source: "cache" };
+function parseManifestBody(body: string, manifestUrl: string): ParsedManifest {
+  if (parsedManifest?.body !== body) {
+    const parsed = parseManifest(body, manifestUrl);
+    parsed.warnings.forEach((warning) => logger.warning(warning));
+    parsedManifest = { body, parsed };
   }
+  return parsedManifest.parsed;
+}
 
-  // Check rate limit
-  if (!rateLimiter.canMakeCall()) {
-    throw new Error(
-      `Rate limit exceeded. Please try again in ${rateLimiter.getResetTimeSeconds()} seconds. (Limit: 3 requests per minute)`,
+/**
+ * Fetch the configured Pro manifest through the response cache
+ * Blocks that fail validation are left out and reported in `warnings`.
+ */
+export async function getManifest(context: ToolContext): Promise<{
+  manifest: Manifest;
+  warnings: string[];
+  source: FetchCachedResult["source"];
+  fetchedAt: number;
+  stale?: boolean;
+  snapshotDate?: string;
+}> {
+  const { config } = context;
+
+  let result: FetchCachedResult;
+  try {
+    result = await fetchCached(
+      config.pro.manifestUrl,
+      { ttlSeconds: config.pro.cacheTtl },
+      context,
     );
+  } catch (error: unknown) {
+    if (!(error instanceof HttpError)) throw error;
+    logger.error(
+      `Failed to fetch Starwind Pro manifest from ${config.pro.manifestUrl}: ${error.message}`,
+    );
+    throw new Error(`Error fetching Starwind Pro manifest: ${error.message}`);
   }
 
-  // Fetch from network
-  rateLimiter.recordCall();
-
   try {
-    const response = await fetch(MANIFEST_URL);
-    if (!response.ok) {
-      throw new Error(`Failed to fetch manifest: ${response.status} ${response.statusText}`);
-    }
-
-    const manifest = (await response.json()) as Manifest;
-
-    // Update cache
-    manifestCache = {
-      data: manifest,
-      timestamp: Date.now(),
-      expiresAt: Date.now() + CACHE_TTL,
-    };
-
-    return { manifest, source: "network" };
+    const { manifest, warnings } = parseManifestBody(result.body, config.pro.manifestUrl);
+    const { source, fetchedAt, stale, snapshotDate } = result;
+    return { manifest, warnings, source, fetchedAt, stale, snapshotDate };
   } catch (error: unknown) {
     const message = error instanceof Error ? error.message : "Unknown error";
+    logger.error(
+      `Failed to parse Starwind Pro manifest from ${config.pro.manifestUrl}: ${message}`,
+    );
     throw new Error(`Error fetching Starwind Pro manifest: ${message}`);
   }
 }
@@ -186,13 +208,30 @@ function formatDuration(ms: number): string {
   return `${hours}h ${minutes % 60}m`;
 }
 
+// ALWAYS include Pro initialization requirements in search results
+const PRO_REQUIREMENTS: ProRequirements = {
+  important:
+    "Starwind Pro blocks REQUIRE the project to be initialized with --pro flag before blocks can be added.",
+  initCommand: "pnpm dlx starwind@latest init --defaults --pro",
+  note: "If the project was initialized without --pro, Pro blocks will fail to install. Re-run init with --pro to fix.",
+  starwindAddTip:
+    "When using starwind_add tool with Pro blocks, set init=true and pro=true to generate the correct init command.",
+};
+
 /**
  * Search Pro Blocks tool definition
  */
-export const searchProBlocksTool = {
+export const searchProBlocksTool = defineTool({
   name: "search_starwind_pro_blocks",
-  description:
-    "Searches Starwind Pro blocks by query, category, or plan type. Returns matching blocks with install commands. Use this to find pre-built UI blocks like heroes, footers, pricing tables, etc. IMPORTANT: Pro blocks require the project to be initialized with 'starwind@latest init --defaults --pro' before they can be added.",
+  title: "Search Starwind Pro Blocks",
+  description: `Searches Starwind Pro blocks by query, category, or plan type. Returns matching blocks with install commands. Use this to find pre-built UI blocks like heroes, footers, pricing tables, etc. ${WORKFLOW_RULES.search_starwind_pro_blocks}`,
+  annotations: {
+    title: "Search Starwind Pro Blocks",
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
   inputSchema: {
     type: "object",
     properties: {
@@ -209,7 +248,8 @@ export const searchProBlocksTool = {
       plan: {
         type: "string",
         enum: ["free", "pro"],
-        description: "Filter by plan type. 'free' blocks are available to all, 'pro' requires a subscription.",
+        description:
+          "Filter by plan type. 'free' blocks are available to all, 'pro' requires a subscription.",
       },
       limit: {
         type: "number",
@@ -217,13 +257,126 @@ export const searchProBlocksTool = {
       },
     },
   },
-  handler: async (args: SearchProBlocksArgs) => {
+  outputSchema: {
+    type: "object",
+    properties: {
+      message: { type: "string" },
+      query: { type: ["string", "null"] },
+      filters: {
+        type: "object",
+        properties: {
+          category: { type: ["string", "null"] },
+          plan: { type: ["string", "null"] },
+        },
+      },
+      totalBlocks: { type: "number" },
+      totalMatches: { type: "number" },
+      resultsReturned: { type: "number" },
+      blocks: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            id: { type: "string" },
+            name: { type: "string" },
+            description: { type: "string" },
+            categories: { type: "array", items: { type: "string" } },
+            plan: { type: "string", enum: ["free", "pro"] },
+            installCommand: { type: "string" },
+            previewUrl: { type: "string" },
+          },
+          required: [
+            "id",
+            "name",
+            "description",
+            "categories",
+            "plan",
+            "installCommand",
+            "previewUrl",
+          ],
+        },
+      },
+      availableCategories: { type: "array", items: { type: "string" } },
+      source: { type: "string", enum: ["cache", "network", "snapshot"] },
+      stale: {
+        type: "boolean",
+        description:
+          "True when the cached copy is past its TTL and being refreshed in the background",
+      },
+      snapshotDate: { type: "string", description: "When the offline snapshot was taken" },
+      warnings: {
+        type: "array",
+        items: { type: "string" },
+        description: "Problems with the manifest, e.g. skipped blocks or an unsupported version",
+      },
+      cacheInfo: {
+        type: "object",
+        properties: {
+          age: { type: "string" },
+          remainingTtl: { type: "string" },
+        },
+      },
+      hint: { type: "string" },
+      proRequirements: {
+        type: "object",
+        properties: {
+          important: { type: "string" },
+          initCommand: { type: "string" },
+          note: { type: "string" },
+          starwindAddTip: { type: "string" },
+        },
+        required: ["important", "initCommand", "note"],
+      },
+    },
+    required: ["availableCategories", "source", "proRequirements"],
+  },
+
+  /**
+   * Concise text summary of a result
+   */
+  summarize: (result: SearchProBlocksResult): string => {
+    const snapshotNote = result.snapshotDate
+      ? `From the offline snapshot of ${result.snapshotDate}.`
+      : undefined;
+    const warningNote = result.warnings
+      ? `Warning: ${result.warnings[0]}${result.warnings.length > 1 ? ` (and ${result.warnings.length - 1} more manifest warning(s))` : ""}`
+      : undefined;
+
+    if (!("blocks" in result)) {
+      return [
+        `${result.totalBlocks} Pro blocks available.`,
+        `Categories: ${result.availableCategories.join(", ")}`,
+        result.hint,
+        snapshotNote,
+        warningNote,
+      ]
+        .filter(Boolean)
+        .join("\n");
+    }
+
+    if (result.blocks.length === 0) {
+      return [result.message, result.hint, warningNote].filter(Boolean).join("\n");
+    }
+
+    return [
+      `Found ${result.totalMatches} block(s), showing ${result.resultsReturned}:`,
+      ...result.blocks.map((block) => `- ${block.name} (${block.plan}): ${block.installCommand}`),
+      `Requires init with --pro: ${result.proRequirements.initCommand}`,
+      snapshotNote,
+      warningNote,
+    ]
+      .filter(Boolean)
+      .join("\n");
+  },
+
+  handler: async (args, context = DEFAULT_TOOL_CONTEXT): Promise<SearchProBlocksResult> => {
+    const { config } = context;
     const { query, category, plan, limit = 10 } = args;
 
     // Validate that at least one filter is provided
     if (!query && !category && !plan) {
       // Return overview with categories when no filters provided
-      const { manifest, source } = await getManifest();
+      const { manifest, warnings, source, stale, snapshotDate } = await getManifest(context);
 
       return {
         message:
@@ -231,6 +384,9 @@ export const searchProBlocksTool = {
         availableCategories: manifest.categories,
         totalBlocks: manifest.totalBlocks,
         source,
+        stale,
+        snapshotDate,
+        warnings: warnings.length > 0 ? warnings : undefined,
         hint: "Try searching with a query like 'hero dark' or filter by category like 'pricing'.",
         proRequirements: {
           important:
@@ -242,7 +398,8 @@ export const searchProBlocksTool = {
     }
 
     // Fetch manifest
-    const { manifest, source } = await getManifest();
+    const { manifest, warnings, source, fetchedAt, stale, snapshotDate } =
+      await getManifest(context);
 
     // Start with all blocks
     let results = [...manifest.blocks];
@@ -276,7 +433,7 @@ export const searchProBlocksTool = {
     results = results.slice(0, effectiveLimit);
 
     // Build response
-    const response: Record<string, unknown> = {
+    const response: SearchProBlocksMatches = {
       query: query || null,
       filters: {
         category: category || null,
@@ -295,12 +452,16 @@ export const searchProBlocksTool = {
       })),
       availableCategories: manifest.categories,
       source,
+      stale,
+      snapshotDate,
+      warnings: warnings.length > 0 ? warnings : undefined,
+      proRequirements: PRO_REQUIREMENTS,
     };
 
     // Add cache info if from cache
-    if (source === "cache" && manifestCache) {
-      const age = Date.now() - manifestCache.timestamp;
-      const remainingTtl = manifestCache.expiresAt - Date.now();
+    if (source === "cache") {
+      const age = Date.now() - fetchedAt;
+      const remainingTtl = Math.max(0, fetchedAt + config.pro.cacheTtl * 1000 - Date.now());
       response.cacheInfo = {
         age: formatDuration(age),
         remainingTtl: formatDuration(remainingTtl),
@@ -313,16 +474,6 @@ export const searchProBlocksTool = {
       response.hint = `Available categories: ${manifest.categories.slice(0, 10).join(", ")}${manifest.categories.length > 10 ? "..." : ""}`;
     }
 
-    // ALWAYS include Pro initialization requirements
-    response.proRequirements = {
-      important:
-        "Starwind Pro blocks REQUIRE the project to be initialized with --pro flag before blocks can be added.",
-      initCommand: "pnpm dlx starwind@latest init --defaults --pro",
-      note: "If the project was initialized without --pro, Pro blocks will fail to install. Re-run init with --pro to fix.",
-      starwindAddTip:
-        "When using starwind_add tool with Pro blocks, set init=true and pro=true to generate the correct init command.",
-    };
-
     return response;
   },
-};
+});
@@ -17,6 +17,14 @@ describe("starwindAddTool", () => {
       expect(starwindAddTool.description).toContain("Starwind UI");
     });
 
+    it("should be annotated as a read-only tool", () => {
+      expect(starwindAddTool.annotations.title).toBe(starwindAddTool.title);
+      expect(starwindAddTool.annotations.readOnlyHint).toBe(true);
+      expect(starwindAddTool.annotations.destructiveHint).toBe(false);
+      expect(starwindAddTool.annotations.idempotentHint).toBe(true);
+      expect(starwindAddTool.annotations.openWorldHint).toBe(true);
+    });
+
     it("should have correct input schema", () => {
       expect(starwindAddTool.inputSchema.type).toBe("object");
       expect(starwindAddTool.inputSchema.properties).toHaveProperty("components");
@@ -174,7 +182,10 @@ describe("starwindAddTool", () => {
       const result = await starwindAddTool.handler({ components: ["button"] });
 
       expect(result.cliFlags).toBeDefined();
-      const cliFlags = result.cliFlags as { note: string; availableFlags: Record<string, string[]> };
+      const cliFlags = result.cliFlags as {
+        note: string;
+        availableFlags: Record<string, string[]>;
+      };
       expect(cliFlags.note).toContain("--yes");
       expect(cliFlags.availableFlags.add).toBeDefined();
       expect(cliFlags.availableFlags.init).toBeDefined();
@@ -212,6 +223,26 @@ describe("starwindAddTool", () => {
       expect(result.packageManager).toBe("npm");
       expect(result.command).toContain("npx");
     });
+
+    it("should use bunx when bun is specified", async () => {
+      const result = await starwindAddTool.handler({
+        components: ["button"],
+        packageManager: "bun",
+      });
+
+      expect(result.packageManager).toBe("bun");
+      expect(result.command).toContain("bunx starwind@latest add button --yes");
+    });
+
+    it("should run the CLI through an npm: specifier when deno is specified", async () => {
+      const result = await starwindAddTool.handler({
+        components: ["button"],
+        packageManager: "deno",
+      });
+
+      expect(result.packageManager).toBe("deno");
+      expect(result.command).toContain("deno run -A npm:starwind@latest add button --yes");
+    });
   });
 
   describe("handler - Pro mode", () => {
@@ -3,24 +3,89 @@
  * Generates validated install commands for Starwind UI components
  */
 
-import { detectPackageManager, type PackageManager } from "../utils/package_manager.js";
+import { WORKFLOW_RULES } from "../prompts/workflow.js";
+import { logger } from "../utils/logger.js";
+import {
+  detectPackageManager,
+  detectYarnRelease,
+  findWorkspace,
+  getCommandDir,
+  getDlxCommand,
+  LOCK_FILE_CONFLICT_SCHEMA,
+  type LockFileConflict,
+  PACKAGE_MANAGERS,
+  type PackageManager,
+} from "../utils/package_manager.js";
+import { fetchCached } from "../utils/response_cache.js";
+import {
+  DEFAULT_TOOL_CONTEXT,
+  defineTool,
+  type ToolArgs,
+  type ToolContext,
+} from "./define_tool.js";
 
 /**
- * Interface for starwind add tool arguments
+ * Starwind add tool arguments, derived from the input schema
  */
-export interface StarwindAddArgs {
-  /** Component(s) to install */
-  components: string[];
-  /** Whether to also include the init command (for new projects) */
-  init?: boolean;
-  /** Whether this is a Starwind Pro project (adds --pro to init command) */
-  pro?: boolean;
-  /** Working directory for package manager detection */
+export type StarwindAddArgs = ToolArgs<typeof starwindAddTool>;
+
+/**
+ * Successful result of the starwind add tool
+ */
+export interface StarwindAddSuccess {
+  success: true;
+  packageManager: PackageManager;
+  /** Set when lock files of several package managers were found */
+  lockFileConflict?: LockFileConflict;
+  /** Individual commands, in the order they must be run */
+  commands: string[];
+  /** All commands joined with && for easy copy-paste */
+  command: string;
+  /** Directory to run the commands in, set when the project is inside a workspace */
   cwd?: string;
-  /** Override package manager detection (useful if auto-detection fails) */
-  packageManager?: "npm" | "pnpm" | "yarn";
+  componentSource: string;
+  /** Set when the cached component list is past its TTL and being refreshed in the background */
+  stale?: boolean;
+  /** When the offline snapshot was taken, set when the component list came from it */
+  snapshotDate?: string;
+  initNote?: string;
+  proMode: boolean;
+  proAutoDetected?: boolean;
+  componentsToInstall: string[];
+  warnings?: {
+    invalidComponents: string[];
+    suggestions: Record<string, string[]>;
+    message: string;
+  };
+  availableComponents: string[];
+  instructions: string;
+  cliFlags: {
+    note: string;
+    availableFlags: Record<string, string[]>;
+  };
+  proNote?: string;
+}
+
+/**
+ * Result of the starwind add tool when none of the components are valid
+ */
+export interface StarwindAddFailure {
+  success: false;
+  error: string;
+  invalidComponents: string[];
+  suggestions: Record<string, string[]>;
+  availableComponents: string[];
+  componentSource: string;
+  stale?: boolean;
+  snapshotDate?: string;
+  hint: string;
 }
 
+/**
+ * Result of the starwind add tool
+ */
+export type StarwindAddResult = StarwindAddSuccess | StarwindAddFailure;
+
 /**
  * Fallback component list - ONLY used if fetching/parsing llms.txt fails
  * This should match the components in https://starwind.dev/llms.txt
@@ -70,32 +135,26 @@ const FALLBACK_COMPONENTS = [
   "video",
 ];
 
-/**
- * Cache for fetched components
- */
-interface ComponentCache {
-  components: string[];
-  timestamp: number;
-  expiresAt: number;
-}
-
-let componentCache: ComponentCache | null = null;
-const CACHE_TTL = 60 * 60 * 1000; // 1 hour in milliseconds
+// Components parsed from the last llms.txt body seen, so an unchanged document is parsed once
+let parsedLlmsTxt: { body: string; components: string[] } | null = null;
 
 /**
- * Reset component cache state (for testing purposes)
+ * Reset cache and rate limiter state (for testing purposes)
  */
 export function resetAddToolState(): void {
-  componentCache = null;
+  void DEFAULT_TOOL_CONTEXT.cache.clear();
+  DEFAULT_TOOL_CONTEXT.limiter.reset();
+  parsedLlmsTxt = null;
 }
 
 /**
  * Parse component slugs from llms.txt content
  * Extracts from markdown links like: - [Component Name](https://starwind.dev/docs/components/component-slug)
+ * The host isn't checked, so mirrors of the docs site are parsed the same way.
  */
-function parseComponentsFromLlmsTxt(content: string): string[] {
+export function parseComponentsFromLlmsTxt(content: string): string[] {
   const components: string[] = [];
-  const regex = /\[.+?\]\(https:\/\/starwind\.dev\/docs\/components\/([a-z0-9-]+)\)/g;
+  const regex = /\[.+?\]\(https?:\/\/[^/)]+\/docs\/components\/([a-z0-9-]+)\/?\)/g;
   let match;
 
   while ((match = regex.exec(content)) !== null) {
@@ -109,58 +168,45 @@ function parseComponentsFromLlmsTxt(content: string): string[] {
 }
 
 /**
- * Fetch available components from llms.txt
- * Returns cached data if available and not expired
- * Falls back to FALLBACK_COMPONENTS on error
+ * Component slugs in an llms.txt body, reusing the previous parse if the body is unchanged
  */
-async function getAvailableComponents(): Promise<{ components: string[]; source: string }> {
-  // Check cache first
-  if (componentCache && Date.now() < componentCache.expiresAt) {
-    return { components: componentCache.components, source: "cache" };
+function componentsFromLlmsTxt(body: string): string[] {
+  if (parsedLlmsTxt?.body !== body) {
+    parsedLlmsTxt = { body, components: parseComponentsFromLlmsTxt(body) };
   }
+  return parsedLlmsTxt.components;
+}
 
-  try {
-    const response = await fetch("https://starwind.dev/llms.txt");
-    if (!response.ok) {
-      throw new Error(`HTTP ${response.status}`);
-    }
+/**
+ * Fetch available components from the configured docs site's llms.txt
+ * The body is the same cached document starwind_docs serves, so both tools share one download.
+ * Falls back to FALLBACK_COMPONENTS on error
+ */
+export async function getAvailableComponents(
+  context: ToolContext,
+): Promise<{ components: string[]; source: string; stale?: boolean; snapshotDate?: string }> {
+  const { config } = context;
 
-    const content = await response.text();
-    const parsed = parseComponentsFromLlmsTxt(content);
+  try {
+    const { body, source, stale, snapshotDate } = await fetchCached(
+      `${config.docs.baseUrl}/llms.txt`,
+      { ttlSeconds: config.docs.cacheTtl.components },
+      context,
+    );
+    const parsed = componentsFromLlmsTxt(body);
 
     if (parsed.length === 0) {
       throw new Error("No components parsed from llms.txt");
     }
 
-    // Update cache
-    componentCache = {
-      components: parsed,
-      timestamp: Date.now(),
-      expiresAt: Date.now() + CACHE_TTL,
-    };
-
-    return { components: parsed, source: "network" };
-  } catch (error) {
+    return { components: parsed, source, stale, snapshotDate };
+  } catch (error: any) {
     // Fall back to hardcoded list
+    logger.warning(`Using fallback component list, llms.txt unavailable: ${error.message}`);
     return { components: FALLBACK_COMPONENTS, source: "fallback" };
   }
 }
 
-/**
- * Get the dlx command for a package manager
- */
-function getDlxCommand(pm: PackageManager): string {
-  switch (pm) {
-    case "pnpm":
-      return "pnpm dlx";
-    case "yarn":
-      return "yarn dlx";
-    case "npm":
-    default:
-      return "npx";
-  }
-}
-
 /**
  * Validate components against available components list
  */
@@ -199,16 +245,25 @@ function validateComponents(
 /**
  * Starwind Add tool definition
  */
-export const starwindAddTool = {
+export const starwindAddTool = defineTool({
   name: "starwind_add",
-  description:
-    "Generates the installation command for Starwind UI components. Validates component names and returns the correct CLI command based on the detected package manager. Use this after consulting starwind_docs to know which components to install. For Starwind Pro blocks (prefixed with @starwind-pro/), set pro=true or the tool will auto-detect it.",
+  title: "Add Starwind UI Components",
+  description: `Generates the installation command for Starwind UI components. Validates component names and returns the correct CLI command based on the detected package manager. ${WORKFLOW_RULES.starwind_add} For Starwind Pro blocks (prefixed with @starwind-pro/), set pro=true or the tool will auto-detect it.`,
+  // Read-only: the tool only generates commands, the agent decides whether to run them
+  annotations: {
+    title: "Add Starwind UI Components",
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
   inputSchema: {
     type: "object",
     properties: {
       components: {
         type: "array",
         items: { type: "string" },
+        minItems: 1,
         description:
           "Array of component names to install (e.g., ['button', 'card', 'dialog']). Use '--all' as a single item to install all components.",
       },
@@ -229,14 +284,103 @@ export const starwindAddTool = {
       },
       packageManager: {
         type: "string",
-        enum: ["npm", "pnpm", "yarn"],
+        enum: PACKAGE_MANAGERS,
         description:
           "Override the auto-detected package manager. Use this if package manager detection fails or you want to force a specific one.",
       },
     },
     required: ["components"],
   },
-  handler: async (args: StarwindAddArgs) => {
+  outputSchema: {
+    type: "object",
+    properties: {
+      success: { type: "boolean" },
+      packageManager: { type: "string" },
+      lockFileConflict: LOCK_FILE_CONFLICT_SCHEMA,
+      commands: {
+        type: "array",
+        items: { type: "string" },
+        description: "Individual commands, in the order they must be run",
+      },
+      command: { type: "string", description: "All commands joined with && for easy copy-paste" },
+      cwd: {
+        type: "string",
+        description:
+          "Directory to run the commands in, set when the project is a package inside a workspace",
+      },
+      componentSource: { type: "string" },
+      stale: {
+        type: "boolean",
+        description:
+          "True when the cached copy is past its TTL and being refreshed in the background",
+      },
+      snapshotDate: { type: "string", description: "When the offline snapshot was taken" },
+      initNote: { type: "string" },
+      proMode: { type: "boolean" },
+      proAutoDetected: { type: "boolean" },
+      componentsToInstall: { type: "array", items: { type: "string" } },
+      warnings: {
+        type: "object",
+        properties: {
+          invalidComponents: { type: "array", items: { type: "string" } },
+          suggestions: {
+            type: "object",
+            additionalProperties: { type: "array", items: { type: "string" } },
+          },
+          message: { type: "string" },
+        },
+      },
+      availableComponents: { type: "array", items: { type: "string" } },
+      instructions: { type: "string" },
+      cliFlags: {
+        type: "object",
+        properties: {
+          note: { type: "string" },
+          availableFlags: {
+            type: "object",
+            additionalProperties: { type: "array", items: { type: "string" } },
+          },
+        },
+      },
+      proNote: { type: "string" },
+      error: { type: "string" },
+      invalidComponents: { type: "array", items: { type: "string" } },
+      suggestions: {
+        type: "object",
+        additionalProperties: { type: "array", items: { type: "string" } },
+      },
+      hint: { type: "string" },
+    },
+    required: ["success", "availableComponents", "componentSource"],
+  },
+
+  /**
+   * Concise text summary of a result
+   */
+  summarize: (result: StarwindAddResult): string => {
+    if (!result.success) {
+      const suggestions = Object.entries(result.suggestions).map(
+        ([component, similar]) => `- ${component}: did you mean ${similar.join(", ")}?`,
+      );
+      return [
+        `${result.error}: ${result.invalidComponents.join(", ")}`,
+        ...suggestions,
+        result.hint,
+      ].join("\n");
+    }
+
+    const lines = [
+      `Run in ${result.cwd ?? "the project directory"}: ${result.command}`,
+      `Components: ${result.componentsToInstall.join(", ")} (package manager: ${result.packageManager})`,
+    ];
+    if (result.lockFileConflict) lines.push(`Warning: ${result.lockFileConflict.message}`);
+    if (result.warnings) lines.push(`Warning: ${result.warnings.message}`);
+    if (result.proNote) lines.push(result.proNote);
+    return lines.join("\n");
+  },
+
+  handler: async (args, context = DEFAULT_TOOL_CONTEXT): Promise<StarwindAddResult> => {
+    const { config } = context;
     const { components, init = false, cwd, packageManager } = args;
 
     // Auto-detect Pro mode if any component has @starwind-pro/ prefix
@@ -248,14 +392,25 @@ export const starwindAddTool = {
     }
 
     // Fetch available components from llms.txt (with caching and fallback)
-    const { components: availableComponents, source: componentSource } =
-      await getAvailableComponents();
+    const {
+      components: availableComponents,
+      source: componentSource,
+      stale,
+      snapshotDate,
+    } = await getAvailableComponents(context);
 
     // Detect package manager (or use override)
     const pmInfo = packageManager
-      ? { name: packageManager as PackageManager }
-      : detectPackageManager({ cwd });
-    const dlxCommand = getDlxCommand(pmInfo.name);
+      ? {
+          name: packageManager,
+          workspace: findWorkspace(cwd),
+          // Classic yarn gets npx instead of dlx
+          yarnRelease: packageManager === "yarn" ? detectYarnRelease(cwd) : undefined,
+        }
+      : detectPackageManager({ cwd, defaultManager: config.packageManager.default });
+    // In a workspace, target the project with a filter or run from its directory
+    const starwindCli = getDlxCommand(pmInfo.name, "starwind@latest", pmInfo);
+    const commandDir = getCommandDir(pmInfo.name, pmInfo.workspace);
 
     // Check for --all flag
     const installAll = components.some(
@@ -267,13 +422,15 @@ export const starwindAddTool = {
 
     // Separate Pro blocks from standard components
     const proBlocks = components.filter((c) => c.toLowerCase().includes("@starwind-pro/"));
-    const standardComponents = components.filter((c) => !c.toLowerCase().includes("@starwind-pro/"));
+    const standardComponents = components.filter(
+      (c) => !c.toLowerCase().includes("@starwind-pro/"),
+    );
 
     if (installAll) {
-      addCommand = `${dlxCommand} starwind@latest add --all --yes`;
+      addCommand = `${starwindCli} add --all --yes`;
     } else if (proBlocks.length > 0 && standardComponents.length === 0) {
       // Only Pro blocks - no validation needed, use as-is
-      addCommand = `${dlxCommand} starwind@latest add ${proBlocks.join(" ")} --yes`;
+      addCommand = `${starwindCli} add ${proBlocks.join(" ")} --yes`;
     } else {
       // Validate standard components against fetched list
       validation = validateComponents(
@@ -289,45 +446,66 @@ export const starwindAddTool = {
           suggestions: validation.suggestions,
           availableComponents,
           componentSource,
+          stale,
+          snapshotDate,
           hint: "Use starwind_docs tool to see available components and their documentation.",
         };
       }
 
       // Combine valid standard components with Pro blocks
       const allComponents = [...validation.valid, ...proBlocks];
-      addCommand = `${dlxCommand} starwind@latest add ${allComponents.join(" ")} --yes`;
+      addCommand = `${starwindCli} add ${allComponents.join(" ")} --yes`;
     }
 
     // Build response
-    const response: Record<string, unknown> = {
-      success: true,
-      packageManager: pmInfo.name,
-      commands: [] as string[],
-      componentSource,
-    };
+    const commands: string[] = [];
+    let initNote: string | undefined;
 
     // Add init command if requested
     if (init) {
       const initCommand = isPro
-        ? `${dlxCommand} starwind@latest init --defaults --pro`
-        : `${dlxCommand} starwind@latest init --defaults`;
-      (response.commands as string[]).push(initCommand);
-      response.initNote = isPro
+        ? `${starwindCli} init --defaults --pro`
+        : `${starwindCli} init --defaults`;
+      commands.push(initCommand);
+      initNote = isPro
         ? "The init command uses --defaults --pro to set up Starwind Pro. This is REQUIRED for @starwind-pro/ blocks to work."
         : "The init command uses --defaults to accept all default options. For Starwind Pro blocks, use init with pro=true.";
     }
 
-    // Add Pro mode info to response
-    response.proMode = isPro;
+    commands.push(addCommand);
+
+    const response: StarwindAddSuccess = {
+      success: true,
+      packageManager: pmInfo.name,
+      lockFileConflict: "lockFileConflict" in pmInfo ? pmInfo.lockFileConflict : undefined,
+      commands,
+      // Single command for easy copy-paste
+      command: commands.join(" && "),
+      cwd: commandDir,
+      componentSource,
+      stale,
+      snapshotDate,
+      // Add Pro mode info to response
+      proMode: isPro,
+      componentsToInstall: ["all"],
+      availableComponents,
+      instructions: `Run the command in ${commandDir ?? "your project directory"}. Make sure you have an Astro project with Tailwind CSS v4 configured.`,
+      cliFlags: {
+        note: "Commands include --yes to skip confirmation prompts (required for AI execution).",
+        availableFlags: {
+          add: ["--yes (skip prompts)", "--all (install all components)"],
+          init: ["--defaults (accept all defaults)", "--pro (required for Starwind Pro blocks)"],
+        },
+      },
+    };
+
+    if (initNote) {
+      response.initNote = initNote;
+    }
     if (hasProComponents && !args.pro) {
       response.proAutoDetected = true;
     }
 
-    (response.commands as string[]).push(addCommand);
-
-    // Single command for easy copy-paste
-    response.command = (response.commands as string[]).join(" && ");
-
     // Add validation info if we validated components
     if (validation) {
       // Include both validated standard components and Pro blocks
@@ -342,21 +520,8 @@ export const starwindAddTool = {
       }
     } else if (proBlocks.length > 0) {
       response.componentsToInstall = proBlocks;
-    } else {
-      response.componentsToInstall = ["all"];
     }
 
-    response.availableComponents = availableComponents;
-    response.instructions =
-      "Run the command in your project directory. Make sure you have an Astro project with Tailwind CSS v4 configured.";
-    response.cliFlags = {
-      note: "Commands include --yes to skip confirmation prompts (required for AI execution).",
-      availableFlags: {
-        add: ["--yes (skip prompts)", "--all (install all components)"],
-        init: ["--defaults (accept all defaults)", "--pro (required for Starwind Pro blocks)"],
-      },
-    };
-
     // Add important note about Pro initialization
     if (isPro) {
       response.proNote =
@@ -365,4 +530,4 @@ export const starwindAddTool = {
 
     return response;
   },
-};
+});
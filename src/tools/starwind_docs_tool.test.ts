@@ -17,6 +17,14 @@ describe("starwindDocsTool", () => {
       expect(starwindDocsTool.description).toContain("Starwind UI");
     });
 
+    it("should be annotated as a read-only tool", () => {
+      expect(starwindDocsTool.annotations.title).toBe(starwindDocsTool.title);
+      expect(starwindDocsTool.annotations.readOnlyHint).toBe(true);
+      expect(starwindDocsTool.annotations.destructiveHint).toBe(false);
+      expect(starwindDocsTool.annotations.idempotentHint).toBe(true);
+      expect(starwindDocsTool.annotations.openWorldHint).toBe(true);
+    });
+
     it("should have correct input schema", () => {
       expect(starwindDocsTool.inputSchema.type).toBe("object");
       expect(starwindDocsTool.inputSchema.properties).toHaveProperty("topic");
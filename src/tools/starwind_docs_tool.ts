@@ -3,123 +3,72 @@
  * Fetches live documentation from starwind.dev for AI consumption
  */
 
+import type { Config } from "../config/settings.js";
+import { WORKFLOW_RULES } from "../prompts/workflow.js";
+import { HttpError } from "../utils/http_client.js";
+import { logger } from "../utils/logger.js";
+import { fetchCached, type FetchCachedResult } from "../utils/response_cache.js";
+import {
+  DEFAULT_TOOL_CONTEXT,
+  defineTool,
+  type ToolArgs,
+  type ToolContext,
+} from "./define_tool.js";
+
 /**
- * Interface for starwind docs tool arguments
+ * Starwind docs tool arguments, derived from the input schema
  */
-export interface StarwindDocsArgs {
-  /** Optional topic to filter documentation (e.g., "button", "theming", "installation") */
-  topic?: string;
-  /** Whether to fetch the full documentation (defaults to false for concise version) */
-  full?: boolean;
-}
+export type StarwindDocsArgs = ToolArgs<typeof starwindDocsTool>;
 
 /**
- * Cache entry structure
+ * Result of the starwind docs tool
  */
-interface CacheEntry {
-  data: string;
-  timestamp: number;
-  expiresAt: number;
+export interface StarwindDocsResult {
+  /** The documentation content (markdown) */
+  documentation: string;
+  source: "cache" | "network" | "snapshot" | "fallback";
+  /** Set when the cached documentation is past its TTL and being refreshed in the background */
+  stale?: boolean;
+  /** When the offline snapshot was taken, set when the documentation came from it */
+  snapshotDate?: string;
+  url: string;
+  topic: string | null;
+  full: boolean;
+  /** Set when a dedicated markdown page was fetched for the topic */
+  pageType?: "component" | "guide";
+  cacheInfo: { age: string; remainingTtl: string } | null;
+  rateLimitInfo: { requestsRemaining: number; resetAfter: string };
 }
 
 /**
- * Simple in-memory cache for documentation
+ * Reset cache and rate limiter state (for testing purposes)
  */
-class DocsCache {
-  private cache: Map<string, CacheEntry> = new Map();
-
-  get(key: string): string | undefined {
-    const entry = this.cache.get(key);
-    if (!entry) return undefined;
-    if (Date.now() > entry.expiresAt) {
-      this.cache.delete(key);
-      return undefined;
-    }
-    return entry.data;
-  }
-
-  set(key: string, data: string, ttlSeconds: number): void {
-    const now = Date.now();
-    this.cache.set(key, {
-      data,
-      timestamp: now,
-      expiresAt: now + ttlSeconds * 1000,
-    });
-  }
-
-  getInfo(key: string): { age: number; remainingTtl: number } | undefined {
-    const entry = this.cache.get(key);
-    if (!entry) return undefined;
-    const now = Date.now();
-    return {
-      age: Math.floor((now - entry.timestamp) / 1000),
-      remainingTtl: Math.max(0, Math.floor((entry.expiresAt - now) / 1000)),
-    };
-  }
+export function resetDocsToolState(): void {
+  void DEFAULT_TOOL_CONTEXT.cache.clear();
+  DEFAULT_TOOL_CONTEXT.limiter.reset();
 }
 
 /**
- * Rate limiter to prevent excessive requests
+ * Describe the age and remaining TTL of a fetched document
+ * Snapshot documents never expire, so they have no cache info.
  */
-class RateLimiter {
-  private lastCallTimes: number[] = [];
-  private maxCallsPerMinute: number;
-
-  constructor(maxCallsPerMinute: number = 3) {
-    this.maxCallsPerMinute = maxCallsPerMinute;
-  }
-
-  canMakeCall(): boolean {
-    const now = Date.now();
-    const oneMinuteAgo = now - 60 * 1000;
-    this.lastCallTimes = this.lastCallTimes.filter((time) => time > oneMinuteAgo);
-    return this.lastCallTimes.length < this.maxCallsPerMinute;
-  }
-
-  recordCall(): void {
-    this.lastCallTimes.push(Date.now());
-  }
-
-  getRemainingCalls(): number {
-    const now = Date.now();
-    const oneMinuteAgo = now - 60 * 1000;
-    this.lastCallTimes = this.lastCallTimes.filter((time) => time > oneMinuteAgo);
-    return Math.max(0, this.maxCallsPerMinute - this.lastCallTimes.length);
-  }
-
-  getResetTimeSeconds(): number {
-    if (this.lastCallTimes.length === 0) return 0;
-    const oldest = Math.min(...this.lastCallTimes);
-    return Math.max(0, Math.ceil(60 - (Date.now() - oldest) / 1000));
-  }
+function getCacheInfo({ source, fetchedAt }: FetchCachedResult, ttlSeconds: number) {
+  if (source === "snapshot") return null;
+  const age = Math.floor((Date.now() - fetchedAt) / 1000);
+  return { age: `${age} seconds`, remainingTtl: `${Math.max(0, ttlSeconds - age)} seconds` };
 }
 
-// Cache TTL values in seconds
-const CACHE_TTL = {
-  STANDARD: 60 * 60, // 1 hour
-  FULL: 60 * 60 * 3, // 3 hours
-  PAGE: 60 * 60 * 2, // 2 hours for specific pages
-};
-
-// Singleton instances
-let docsCache = new DocsCache();
-let rateLimiter = new RateLimiter(10); // Increased for page fetches
-
 /**
- * Reset cache and rate limiter state (for testing purposes)
+ * Documentation URLs for the configured docs site
  */
-export function resetDocsToolState(): void {
-  docsCache = new DocsCache();
-  rateLimiter = new RateLimiter(10);
+function getDocsUrls(config: Config) {
+  return {
+    standard: `${config.docs.baseUrl}/llms.txt`,
+    full: `${config.docs.baseUrl}/llms-full.txt`,
+    base: config.docs.baseUrl,
+  };
 }
 
-// Documentation URLs
-const DOCS_URLS = {
-  standard: "https://starwind.dev/llms.txt",
-  full: "https://starwind.dev/llms-full.txt",
-  base: "https://starwind.dev",
-};
-
 // Known components (fetched from llms.txt dynamically, with fallback)
 const KNOWN_COMPONENTS = [
   "accordion",
@@ -171,7 +120,7 @@ const KNOWN_COMPONENTS = [
 ];
 
 // Known doc pages that aren't components
-const DOC_PAGE_PATHS: Record<string, string> = {
+export const DOC_PAGE_PATHS: Record<string, string> = {
   installation: "/docs/getting-started/installation/",
   "getting-started": "/docs/getting-started/installation/",
   theming: "/docs/getting-started/theming/",
@@ -188,35 +137,45 @@ const DOC_PAGE_PATHS: Record<string, string> = {
 
 /**
  * Build the markdown URL for a topic
+ * Unknown topics are treated as components, so this always returns a URL.
  */
-function getMarkdownUrl(topic: string): string | null {
+export function getMarkdownUrl(topic: string, baseUrl: string): string {
   const normalized = topic.toLowerCase().trim();
 
   // Check if it's a known doc page
   if (DOC_PAGE_PATHS[normalized]) {
-    return `${DOCS_URLS.base}${DOC_PAGE_PATHS[normalized]}markdown.md`;
+    return `${baseUrl}${DOC_PAGE_PATHS[normalized]}markdown.md`;
   }
 
   // Check if it's a known component
   if (KNOWN_COMPONENTS.includes(normalized)) {
-    return `${DOCS_URLS.base}/docs/components/${normalized}/markdown.md`;
+    return `${baseUrl}/docs/components/${normalized}/markdown.md`;
   }
 
   // Try as a component anyway (might be a new component not in our list)
-  return `${DOCS_URLS.base}/docs/components/${normalized}/markdown.md`;
+  return `${baseUrl}/docs/components/${normalized}/markdown.md`;
 }
 
 /**
- * Fetch a specific documentation page
+ * Fetch a specific documentation page through the response cache
+ * Returns null if the page doesn't exist or can't be fetched
  */
-async function fetchDocPage(url: string): Promise<string | null> {
+async function fetchDocPage(
+  url: string,
+  ttlSeconds: number,
+  context: ToolContext,
+): Promise<FetchCachedResult | null> {
   try {
-    const response = await fetch(url);
-    if (!response.ok) {
-      return null;
+    return await fetchCached(url, { ttlSeconds }, context);
+  } catch (error: any) {
+    if (!(error instanceof HttpError)) throw error;
+    if (error.kind === "status") {
+      logger.debug(`Docs page not available: ${url} (HTTP ${error.status})`);
+    } else if (error.kind === "offline") {
+      logger.debug(error.message);
+    } else {
+      logger.warning(`Failed to fetch docs page ${url}: ${error.message}`);
     }
-    return await response.text();
-  } catch {
     return null;
   }
 }
@@ -224,10 +183,17 @@ async function fetchDocPage(url: string): Promise<string | null> {
 /**
  * Starwind Docs tool definition
  */
-export const starwindDocsTool = {
+export const starwindDocsTool = defineTool({
   name: "starwind_docs",
-  description:
-    "Fetches live Starwind UI documentation from starwind.dev. Use this to get up-to-date component docs, installation guides, theming info, and usage examples. The documentation is optimized for AI consumption.",
+  title: "Starwind UI Docs",
+  description: `Fetches live Starwind UI documentation from starwind.dev. Use this to get up-to-date component docs, installation guides, theming info, and usage examples. The documentation is optimized for AI consumption. ${WORKFLOW_RULES.starwind_docs}`,
+  annotations: {
+    title: "Starwind UI Docs",
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
   inputSchema: {
     type: "object",
     properties: {
@@ -244,119 +210,98 @@ export const starwindDocsTool = {
     },
     required: [],
   },
-  handler: async (args: StarwindDocsArgs = {}) => {
+  outputSchema: {
+    type: "object",
+    properties: {
+      documentation: { type: "string", description: "The documentation content (markdown)" },
+      source: { type: "string", enum: ["cache", "network", "snapshot", "fallback"] },
+      stale: {
+        type: "boolean",
+        description:
+          "True when the cached copy is past its TTL and being refreshed in the background",
+      },
+      snapshotDate: { type: "string", description: "When the offline snapshot was taken" },
+      url: { type: "string" },
+      topic: { type: ["string", "null"] },
+      full: { type: "boolean" },
+      pageType: { type: "string", enum: ["component", "guide"] },
+      cacheInfo: {
+        type: ["object", "null"],
+        properties: {
+          age: { type: "string" },
+          remainingTtl: { type: "string" },
+        },
+      },
+      rateLimitInfo: {
+        type: "object",
+        properties: {
+          requestsRemaining: { type: "number" },
+          resetAfter: { type: "string" },
+        },
+        required: ["requestsRemaining", "resetAfter"],
+      },
+    },
+    required: ["documentation", "source", "url", "topic", "full", "cacheInfo", "rateLimitInfo"],
+  },
+
+  /**
+   * Concise text summary of a result - the documentation itself, with its origin
+   */
+  summarize: (result: StarwindDocsResult): string =>
+    `Source: ${result.url} (${result.snapshotDate ? `snapshot of ${result.snapshotDate}` : result.source})\n\n${result.documentation}`,
+
+  handler: async (args = {}, context = DEFAULT_TOOL_CONTEXT): Promise<StarwindDocsResult> => {
+    const { config } = context;
     const isFull = args.full === true;
+    const docsUrls = getDocsUrls(config);
+    // The budget is shared with every other tool calling the docs host
+    const rateLimitInfo = () => {
+      const status = context.limiter.status(docsUrls.standard, config);
+      return {
+        requestsRemaining: status.remaining,
+        resetAfter: `${status.resetAfterSeconds} seconds`,
+      };
+    };
 
     // If a topic is provided, try to fetch the specific markdown page first
     if (args.topic) {
       const topic = args.topic.toLowerCase().trim();
-      const markdownUrl = getMarkdownUrl(topic);
-
-      if (markdownUrl) {
-        const pageCacheKey = `page_${topic}`;
-
-        // Check cache for this specific page
-        let pageContent = docsCache.get(pageCacheKey);
-        let source: "cache" | "network" | "fallback" = "cache";
-
-        if (!pageContent) {
-          // Check rate limit
-          if (!rateLimiter.canMakeCall()) {
-            throw new Error(
-              `Rate limit exceeded. Please try again in ${rateLimiter.getResetTimeSeconds()} seconds. (Limit: 10 requests per minute)`,
-            );
-          }
-
-          rateLimiter.recordCall();
-          const fetchedContent = await fetchDocPage(markdownUrl);
-
-          if (fetchedContent) {
-            pageContent = fetchedContent;
-            docsCache.set(pageCacheKey, pageContent, CACHE_TTL.PAGE);
-            source = "network";
-
-            const cacheInfo = docsCache.getInfo(pageCacheKey);
-
-            return {
-              documentation: pageContent,
-              source,
-              url: markdownUrl,
-              topic: args.topic,
-              full: true, // Specific pages are always full
-              pageType: KNOWN_COMPONENTS.includes(topic) ? "component" : "guide",
-              cacheInfo: cacheInfo
-                ? {
-                    age: `${cacheInfo.age} seconds`,
-                    remainingTtl: `${cacheInfo.remainingTtl} seconds`,
-                  }
-                : null,
-              rateLimitInfo: {
-                requestsRemaining: rateLimiter.getRemainingCalls(),
-                resetAfter: `${rateLimiter.getResetTimeSeconds()} seconds`,
-              },
-            };
-          }
-          // Page fetch failed, fall through to llms.txt fallback
-          source = "fallback";
-        } else {
-          // Found in cache
-          const cacheInfo = docsCache.getInfo(pageCacheKey);
-
-          return {
-            documentation: pageContent,
-            source,
-            url: markdownUrl,
-            topic: args.topic,
-            full: true,
-            pageType: KNOWN_COMPONENTS.includes(topic) ? "component" : "guide",
-            cacheInfo: cacheInfo
-              ? {
-                  age: `${cacheInfo.age} seconds`,
-                  remainingTtl: `${cacheInfo.remainingTtl} seconds`,
-                }
-              : null,
-            rateLimitInfo: {
-              requestsRemaining: rateLimiter.getRemainingCalls(),
-              resetAfter: `${rateLimiter.getResetTimeSeconds()} seconds`,
-            },
-          };
-        }
+      const markdownUrl = getMarkdownUrl(topic, docsUrls.base);
+      const pageTtl = config.docs.cacheTtl.page;
+      const page = await fetchDocPage(markdownUrl, pageTtl, context);
+
+      if (page) {
+        return {
+          documentation: page.body,
+          source: page.source,
+          stale: page.stale,
+          snapshotDate: page.snapshotDate,
+          url: markdownUrl,
+          topic: args.topic,
+          full: true, // Specific pages are always full
+          pageType: KNOWN_COMPONENTS.includes(topic) ? "component" : "guide",
+          cacheInfo: getCacheInfo(page, pageTtl),
+          rateLimitInfo: rateLimitInfo(),
+        };
       }
+      // Page fetch failed, fall through to llms.txt fallback
     }
 
     // Fallback: fetch llms.txt and filter by topic
-    const url = isFull ? DOCS_URLS.full : DOCS_URLS.standard;
-    const cacheKey = isFull ? "docs_full" : "docs_standard";
-    const cacheTtl = isFull ? CACHE_TTL.FULL : CACHE_TTL.STANDARD;
-
-    // Check cache first
-    let docsContent = docsCache.get(cacheKey);
-    let source: "cache" | "network" | "fallback" = "cache";
-
-    if (!docsContent) {
-      // Not in cache, check rate limit
-      if (!rateLimiter.canMakeCall()) {
-        throw new Error(
-          `Rate limit exceeded. Please try again in ${rateLimiter.getResetTimeSeconds()} seconds. (Limit: 10 requests per minute)`,
-        );
-      }
-
-      // Fetch from network
-      rateLimiter.recordCall();
-
-      try {
-        const response = await fetch(url);
-        if (!response.ok) {
-          throw new Error(`Failed to fetch docs: ${response.status} ${response.statusText}`);
-        }
-        docsContent = await response.text();
-        docsCache.set(cacheKey, docsContent, cacheTtl);
-        source = "network";
-      } catch (error: any) {
-        throw new Error(`Error fetching Starwind documentation: ${error.message}`);
-      }
+    const url = isFull ? docsUrls.full : docsUrls.standard;
+    const cacheTtl = isFull ? config.docs.cacheTtl.full : config.docs.cacheTtl.standard;
+
+    let fetched: FetchCachedResult;
+    try {
+      fetched = await fetchCached(url, { ttlSeconds: cacheTtl }, context);
+    } catch (error: any) {
+      if (!(error instanceof HttpError)) throw error;
+      throw new Error(`Error fetching Starwind documentation: ${error.message}`);
     }
 
+    const docsContent = fetched.body;
+    let source: StarwindDocsResult["source"] = fetched.source;
+
     // Filter by topic if provided
     let filteredContent = docsContent;
     if (args.topic) {
@@ -405,24 +350,16 @@ export const starwindDocsTool = {
       source = "fallback";
     }
 
-    const cacheInfo = docsCache.getInfo(cacheKey);
-
     return {
       documentation: filteredContent,
       source,
+      stale: fetched.stale,
+      snapshotDate: fetched.snapshotDate,
       url,
       topic: args.topic || null,
       full: isFull,
-      cacheInfo: cacheInfo
-        ? {
-            age: `${cacheInfo.age} seconds`,
-            remainingTtl: `${cacheInfo.remainingTtl} seconds`,
-          }
-        : null,
-      rateLimitInfo: {
-        requestsRemaining: rateLimiter.getRemainingCalls(),
-        resetAfter: `${rateLimiter.getResetTimeSeconds()} seconds`,
-      },
+      cacheInfo: getCacheInfo(fetched, cacheTtl),
+      rateLimitInfo: rateLimitInfo(),
     };
   },
-};
+});
@@ -1,3 +1,6 @@
+import { mkdirSync, mkdtempSync, rmSync, utimesSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
 import { describe, it, expect } from "vitest";
 import { starwindInitTool } from "./starwind_init_tool.js";
 
@@ -9,7 +12,16 @@ describe("starwindInitTool", () => {
 
     it("should have a description mentioning Pro default", () => {
       expect(starwindInitTool.description).toContain("Pro");
-      expect(starwindInitTool.description).toContain("FIRST");
+      expect(starwindInitTool.description).toContain("ALWAYS");
+      expect(starwindInitTool.description).toContain("unless starwind_project_status reports");
+    });
+
+    it("should be annotated as a read-only tool", () => {
+      expect(starwindInitTool.annotations.title).toBe(starwindInitTool.title);
+      expect(starwindInitTool.annotations.readOnlyHint).toBe(true);
+      expect(starwindInitTool.annotations.destructiveHint).toBe(false);
+      expect(starwindInitTool.annotations.idempotentHint).toBe(true);
+      expect(starwindInitTool.annotations.openWorldHint).toBe(false);
     });
 
     it("should have correct input schema", () => {
@@ -101,6 +113,100 @@ describe("starwindInitTool", () => {
       expect(result.packageManager).toBe("npm");
       expect(result.command).toContain("npx");
     });
+
+    it("should use bunx for bun and an npm: specifier for deno", async () => {
+      const bun = await starwindInitTool.handler({ packageManager: "bun" });
+      const deno = await starwindInitTool.handler({ packageManager: "deno" });
+
+      expect(bun.command).toBe("bunx starwind@latest init --defaults --pro");
+      expect(deno.command).toBe("deno run -A npm:starwind@latest init --defaults --pro");
+    });
+
+    it("should target the project inside a monorepo", async () => {
+      const root = mkdtempSync(join(tmpdir(), "starwind-mcp-workspace-"));
+      const app = join(root, "apps", "marketing");
+      try {
+        mkdirSync(app, { recursive: true });
+        writeFileSync(join(root, "pnpm-workspace.yaml"), "packages:\n  - apps/*\n");
+        writeFileSync(join(root, "pnpm-lock.yaml"), "");
+        writeFileSync(join(app, "package.json"), JSON.stringify({ name: "marketing" }));
+
+        const pnpm = await starwindInitTool.handler({ cwd: app });
+        const npm = await starwindInitTool.handler({ cwd: app, packageManager: "npm" });
+
+        expect(pnpm.command).toBe(
+          "pnpm --filter marketing dlx starwind@latest init --defaults --pro",
+        );
+        expect(pnpm.cwd).toBe(root);
+        expect(npm.command).toBe("npx starwind@latest init --defaults --pro");
+        expect(npm.cwd).toBe(app);
+      } finally {
+        rmSync(root, { recursive: true, force: true });
+      }
+    });
+
+    it("should use npx in Yarn Classic projects", async () => {
+      const dir = mkdtempSync(join(tmpdir(), "starwind-mcp-yarn-"));
+      try {
+        writeFileSync(join(dir, "yarn.lock"), "# yarn lockfile v1\n");
+
+        const result = await starwindInitTool.handler({ cwd: dir });
+
+        expect(result.packageManager).toBe("yarn");
+        expect(result.command).toBe("npx starwind@latest init --defaults --pro");
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it("should use npx when yarn is specified in a Yarn Classic project", async () => {
+      const dir = mkdtempSync(join(tmpdir(), "starwind-mcp-yarn-"));
+      try {
+        writeFileSync(join(dir, "yarn.lock"), "# yarn lockfile v1\n");
+
+        const result = await starwindInitTool.handler({ cwd: dir, packageManager: "yarn" });
+
+        expect(result.packageManagerSource).toBe("user-specified");
+        expect(result.command).toBe("npx starwind@latest init --defaults --pro");
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it("should use npx when yarn is specified and packageManager names Yarn Classic", async () => {
+      const dir = mkdtempSync(join(tmpdir(), "starwind-mcp-yarn-"));
+      try {
+        writeFileSync(
+          join(dir, "package.json"),
+          JSON.stringify({ packageManager: "yarn@1.22.22" }),
+        );
+
+        const result = await starwindInitTool.handler({ cwd: dir, packageManager: "yarn" });
+
+        expect(result.command).toBe("npx starwind@latest init --defaults --pro");
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it("should report conflicting lock files", async () => {
+      const dir = mkdtempSync(join(tmpdir(), "starwind-mcp-lockfiles-"));
+      try {
+        writeFileSync(join(dir, "pnpm-lock.yaml"), "");
+        writeFileSync(join(dir, "package-lock.json"), "{}");
+        utimesSync(join(dir, "pnpm-lock.yaml"), new Date(2024, 0, 1), new Date(2024, 0, 1));
+
+        const result = await starwindInitTool.handler({ cwd: dir });
+
+        expect(result.packageManager).toBe("npm");
+        expect(result.lockFileConflict?.recommended).toBe("npm");
+        expect(starwindInitTool.summarize(result)).toContain(
+          `Warning: Found lock files of several package managers`,
+        );
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
   });
 
   describe("handler - response structure", () => {
@@ -1,28 +1,44 @@
-import { detectPackageManager, type PackageManager } from "../utils/package_manager.js";
+import { WORKFLOW_RULES } from "../prompts/workflow.js";
+import {
+  detectPackageManager,
+  detectYarnRelease,
+  findWorkspace,
+  getCommandDir,
+  getDlxCommand,
+  LOCK_FILE_CONFLICT_SCHEMA,
+  type LockFileConflict,
+  PACKAGE_MANAGERS,
+  type PackageManager,
+} from "../utils/package_manager.js";
+import { DEFAULT_TOOL_CONTEXT, defineTool, type ToolArgs } from "./define_tool.js";
 
 /**
- * Arguments for the starwind_init tool
+ * Arguments for the starwind_init tool, derived from the input schema
  */
-interface StarwindInitArgs {
-  cwd?: string;
-  packageManager?: "npm" | "pnpm" | "yarn";
-  pro?: boolean;
-}
+export type StarwindInitArgs = ToolArgs<typeof starwindInitTool>;
 
 /**
- * Get the dlx command for a package manager
+ * Result of the starwind_init tool
  */
-function getDlxCommand(packageManager: PackageManager): string {
-  switch (packageManager) {
-    case "npm":
-      return "npx";
-    case "yarn":
-      return "yarn dlx";
-    case "pnpm":
-      return "pnpm dlx";
-    default:
-      return "npx";
-  }
+export interface StarwindInitResult {
+  success: true;
+  command: string;
+  /** Directory to run the command in, set when the project is inside a workspace */
+  cwd?: string;
+  packageManager: PackageManager;
+  packageManagerSource: "user-specified" | "detected";
+  /** Set when lock files of several package managers were found */
+  lockFileConflict?: LockFileConflict;
+  proEnabled: boolean;
+  setupType: "Starwind Pro" | "Starwind Standard";
+  description: string;
+  nextSteps: string[];
+  requirements: {
+    framework: string;
+    styling: string;
+    note: string;
+  };
+  cliFlags: Record<string, string>;
 }
 
 /**
@@ -30,20 +46,29 @@ function getDlxCommand(packageManager: PackageManager): string {
  *
  * Defaults to Pro setup since it doesn't break anything and enables Pro blocks.
  */
-export const starwindInitTool = {
+export const starwindInitTool = defineTool({
   name: "starwind_init",
-  description:
-    "Initializes a Starwind UI project. ALWAYS use this tool FIRST before adding any Starwind components or blocks. Defaults to Pro setup (recommended) which enables both standard components AND Pro blocks. Set pro=false only if you specifically want standard-only setup.",
+  title: "Initialize Starwind UI",
+  description: `Initializes a Starwind UI project. ${WORKFLOW_RULES.starwind_init} Defaults to Pro setup (recommended) which enables both standard components AND Pro blocks. Set pro=false only if you specifically want standard-only setup.`,
+  // Read-only: the tool only generates commands, the agent decides whether to run them
+  annotations: {
+    title: "Initialize Starwind UI",
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: false,
+  },
   inputSchema: {
     type: "object",
     properties: {
       cwd: {
         type: "string",
-        description: "Working directory for package manager detection. Defaults to current directory.",
+        description:
+          "Working directory for package manager detection. Defaults to current directory.",
       },
       packageManager: {
         type: "string",
-        enum: ["npm", "pnpm", "yarn"],
+        enum: PACKAGE_MANAGERS,
         description:
           "Override the auto-detected package manager. Use this if package manager detection fails or you want to force a specific one.",
       },
@@ -56,31 +81,94 @@ export const starwindInitTool = {
     },
     required: [],
   },
+  outputSchema: {
+    type: "object",
+    properties: {
+      success: { type: "boolean" },
+      command: { type: "string", description: "The init command to run in the project directory" },
+      cwd: {
+        type: "string",
+        description:
+          "Directory to run the command in, set when the project is a package inside a workspace",
+      },
+      packageManager: { type: "string" },
+      packageManagerSource: { type: "string", enum: ["user-specified", "detected"] },
+      lockFileConflict: LOCK_FILE_CONFLICT_SCHEMA,
+      proEnabled: { type: "boolean" },
+      setupType: { type: "string", enum: ["Starwind Pro", "Starwind Standard"] },
+      description: { type: "string" },
+      nextSteps: { type: "array", items: { type: "string" } },
+      requirements: {
+        type: "object",
+        properties: {
+          framework: { type: "string" },
+          styling: { type: "string" },
+          note: { type: "string" },
+        },
+        required: ["framework", "styling", "note"],
+      },
+      cliFlags: { type: "object", additionalProperties: { type: "string" } },
+    },
+    required: [
+      "success",
+      "command",
+      "packageManager",
+      "packageManagerSource",
+      "proEnabled",
+      "setupType",
+      "description",
+      "nextSteps",
+      "requirements",
+      "cliFlags",
+    ],
+  },
+
+  /**
+   * Concise text summary of a result
+   */
+  summarize(result: StarwindInitResult): string {
+    return [
+      `Run in ${result.cwd ?? "the project directory"}: ${result.command}`,
+      `Setup: ${result.setupType} (package manager: ${result.packageManager}, ${result.packageManagerSource})`,
+      ...(result.lockFileConflict ? [`Warning: ${result.lockFileConflict.message}`] : []),
+      ...result.nextSteps.slice(1).map((step) => `- ${step}`),
+    ].join("\n");
+  },
 
   /**
    * Handler for the starwind_init tool
    */
-  async handler(args: StarwindInitArgs): Promise<Record<string, unknown>> {
+  async handler(args, { config } = DEFAULT_TOOL_CONTEXT): Promise<StarwindInitResult> {
     // Default to Pro setup
     const isPro = args.pro !== false;
 
     // Detect or use provided package manager
     const pmInfo = args.packageManager
-      ? { name: args.packageManager as PackageManager, source: "user-specified" as const }
-      : detectPackageManager({ cwd: args.cwd });
+      ? {
+          name: args.packageManager,
+          source: "user-specified" as const,
+          workspace: findWorkspace(args.cwd),
+          // Yarn Classic has no dlx, so the release still has to be detected
+          yarnRelease: args.packageManager === "yarn" ? detectYarnRelease(args.cwd) : undefined,
+        }
+      : detectPackageManager({ cwd: args.cwd, defaultManager: config.packageManager.default });
 
-    const dlxCommand = getDlxCommand(pmInfo.name);
+    // In a workspace, target the project with a filter or run from its directory
+    const starwindCli = getDlxCommand(pmInfo.name, "starwind@latest", pmInfo);
+    const cwd = getCommandDir(pmInfo.name, pmInfo.workspace);
 
     // Build init command
     const initCommand = isPro
-      ? `${dlxCommand} starwind@latest init --defaults --pro`
-      : `${dlxCommand} starwind@latest init --defaults`;
+      ? `${starwindCli} init --defaults --pro`
+      : `${starwindCli} init --defaults`;
 
     return {
       success: true,
       command: initCommand,
+      cwd,
       packageManager: pmInfo.name,
       packageManagerSource: "source" in pmInfo ? pmInfo.source : "detected",
+      lockFileConflict: "lockFileConflict" in pmInfo ? pmInfo.lockFileConflict : undefined,
       proEnabled: isPro,
       setupType: isPro ? "Starwind Pro" : "Starwind Standard",
       description: isPro
@@ -88,12 +176,12 @@ export const starwindInitTool = {
         : "This command initializes Starwind UI standard. You can only use standard components. To use Pro blocks, re-run init with pro=true.",
       nextSteps: isPro
         ? [
-            "Run the command above in your project directory",
+            `Run the command above in ${cwd ?? "your project directory"}`,
             "Then use starwind_add to add components: e.g., button, card, dialog",
             "Or use search_starwind_pro_blocks to find Pro blocks like heroes, footers, etc.",
           ]
         : [
-            "Run the command above in your project directory",
+            `Run the command above in ${cwd ?? "your project directory"}`,
             "Then use starwind_add to add components: e.g., button, card, dialog",
             "Note: Pro blocks will NOT work with this setup",
           ],
@@ -109,4 +197,4 @@ export const starwindInitTool = {
       },
     };
   },
-};
+});
@@ -0,0 +1,107 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { starwindProjectStatusTool } from "./starwind_project_status_tool";
+
+describe("starwindProjectStatusTool", () => {
+  let dir: string;
+
+  /**
+   * Write a file in the project, creating its directory
+   */
+  function write(file: string, content: unknown) {
+    mkdirSync(join(dir, file, ".."), { recursive: true });
+    writeFileSync(join(dir, file), typeof content === "string" ? content : JSON.stringify(content));
+  }
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "starwind-mcp-project-"));
+    write("package.json", {
+      dependencies: { astro: "^5.2.0" },
+      devDependencies: { tailwindcss: "^4.0.6" },
+    });
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should have correct name and annotations", () => {
+    expect(starwindProjectStatusTool.name).toBe("starwind_project_status");
+    expect(starwindProjectStatusTool.annotations.readOnlyHint).toBe(true);
+    expect(starwindProjectStatusTool.annotations.openWorldHint).toBe(false);
+  });
+
+  it("should recommend init in a project without starwind.config.json", async () => {
+    const result = await starwindProjectStatusTool.handler({ cwd: dir });
+
+    expect(result).toMatchObject({
+      cwd: dir,
+      initialized: false,
+      pro: false,
+      installedComponents: [],
+      astroVersion: "^5.2.0",
+      tailwindVersion: "^4.0.6",
+      warnings: [],
+    });
+    expect(result.componentDir).toBeUndefined();
+    expect(result.nextStep).toContain("Run starwind_init first");
+  });
+
+  it("should report the config, Pro setup and installed components", async () => {
+    write("starwind.config.json", {
+      $schema: "https://starwind.dev/config-schema.json",
+      tailwind: { css: "src/styles/starwind.css", baseColor: "neutral", cssVariables: true },
+      componentDir: "src/ui",
+      components: [{ name: "button", version: "2.0.0" }],
+    });
+    write("components.json", {
+      registries: { "@starwind-pro": "https://pro.starwind.dev/r/{name}" },
+    });
+    write("src/ui/starwind/button/Button.astro", "");
+    write("src/ui/starwind/card/Card.astro", "");
+    write("src/ui/starwind/README.md", "");
+
+    const result = await starwindProjectStatusTool.handler({ cwd: dir });
+
+    expect(result).toMatchObject({
+      initialized: true,
+      pro: true,
+      componentDir: "src/ui",
+      cssFile: "src/styles/starwind.css",
+      installedComponents: ["button", "card"],
+    });
+    expect(result.nextStep).toContain("don't run starwind_init again");
+    expect(starwindProjectStatusTool.summarize(result)).toContain(
+      "Components: button, card (in src/ui, CSS src/styles/starwind.css)",
+    );
+  });
+
+  it("should warn about problems instead of failing", async () => {
+    write("starwind.config.json", "{ not json");
+    write("package.json", { devDependencies: { tailwindcss: "~3.4.1" } });
+
+    const result = await starwindProjectStatusTool.handler({ cwd: dir });
+
+    expect(result.initialized).toBe(true);
+    expect(result.componentDir).toBe("src/components");
+    expect(result.warnings).toEqual([
+      expect.stringContaining("Could not read starwind.config.json"),
+      "astro is not a dependency, Starwind components need Astro",
+      "Tailwind CSS ~3.4.1 is installed, Starwind needs Tailwind CSS v4",
+    ]);
+  });
+
+  it("should warn about JSON files that aren't objects", async () => {
+    write("starwind.config.json", {});
+    write("components.json", "null");
+    write("package.json", "null");
+
+    const result = await starwindProjectStatusTool.handler({ cwd: dir });
+
+    expect(result.pro).toBe(false);
+    expect(result.warnings).toEqual(["package.json is not a JSON object"]);
+  });
+});
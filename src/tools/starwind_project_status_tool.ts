@@ -0,0 +1,288 @@
+/**
+ * Starwind Project Status Tool
+ * Inspects the target project, so agents can tell whether Starwind still needs to be initialized
+ * and which components are already installed
+ */
+
+import { readdir, readFile } from "fs/promises";
+import { join, resolve } from "path";
+
+import { WORKFLOW_RULES } from "../prompts/workflow.js";
+import { type FromSchema, type JsonObjectSchema, validateSchema } from "../utils/json_schema.js";
+import { defineTool, type ToolArgs } from "./define_tool.js";
+
+/**
+ * Project status tool arguments, derived from the input schema
+ */
+export type StarwindProjectStatusArgs = ToolArgs<typeof starwindProjectStatusTool>;
+
+/**
+ * Result of the project status tool
+ */
+export interface StarwindProjectStatusResult {
+  /** The project directory that was inspected */
+  cwd: string;
+  /** Whether starwind.config.json exists */
+  initialized: boolean;
+  /** Whether the Starwind Pro registry is configured, as `starwind init --pro` does */
+  pro: boolean;
+  /** Component directory from starwind.config.json */
+  componentDir?: string;
+  /** Tailwind CSS file from starwind.config.json */
+  cssFile?: string;
+  /** Component directories under `<componentDir>/starwind` */
+  installedComponents: string[];
+  /** Astro version range from package.json */
+  astroVersion?: string;
+  /** Tailwind CSS version range from package.json */
+  tailwindVersion?: string;
+  /** Problems that will get in the way of Starwind, e.g. an unreadable config or Tailwind v3 */
+  warnings: string[];
+  /** What the agent should do next */
+  nextStep: string;
+}
+
+const CONFIG_FILE = "starwind.config.json";
+
+/**
+ * Where the Starwind CLI installs components when the config doesn't say
+ */
+const DEFAULT_COMPONENT_DIR = "src/components";
+
+/**
+ * Schema of the starwind.config.json fields this tool reads
+ */
+const STARWIND_CONFIG_SCHEMA = {
+  type: "object",
+  properties: {
+    componentDir: { type: "string" },
+    tailwind: {
+      type: "object",
+      properties: {
+        css: { type: "string" },
+      },
+    },
+  },
+} as const satisfies JsonObjectSchema;
+
+type StarwindConfig = FromSchema<typeof STARWIND_CONFIG_SCHEMA>;
+
+/**
+ * Read and parse a JSON file
+ * @returns The parsed value, undefined if the file doesn't exist
+ * @throws {Error} If the file exists but can't be read or isn't valid JSON
+ */
+async function readJson(path: string): Promise<unknown> {
+  let body: string;
+  try {
+    body = await readFile(path, "utf8");
+  } catch (error: any) {
+    if (error.code === "ENOENT") return undefined;
+    throw error;
+  }
+  return JSON.parse(body);
+}
+
+/**
+ * Whether a parsed JSON value is an object, so its fields can be read
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+/**
+ * Read starwind.config.json, reporting problems as warnings
+ */
+async function readConfig(
+  cwd: string,
+  warnings: string[],
+): Promise<{ initialized: boolean; config: StarwindConfig }> {
+  let config: unknown;
+  try {
+    config = await readJson(join(cwd, CONFIG_FILE));
+  } catch (error: any) {
+    warnings.push(`Could not read ${CONFIG_FILE}: ${error.message}`);
+    return { initialized: true, config: {} };
+  }
+  if (config === undefined) return { initialized: false, config: {} };
+
+  const issues = validateSchema(STARWIND_CONFIG_SCHEMA, config);
+  if (issues.length > 0) {
+    warnings.push(
+      `Invalid ${CONFIG_FILE}: ${issues.map((issue) => `${issue.path} ${issue.message}`).join("; ")}`,
+    );
+    return { initialized: true, config: {} };
+  }
+  return { initialized: true, config: config as StarwindConfig };
+}
+
+/**
+ * Whether components.json registers the Starwind Pro registry, which `starwind init --pro` sets up
+ */
+async function hasProRegistry(cwd: string): Promise<boolean> {
+  try {
+    const components = await readJson(join(cwd, "components.json"));
+    return (
+      isObject(components) &&
+      isObject(components.registries) &&
+      components.registries["@starwind-pro"] !== undefined
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Names of the component directories the Starwind CLI has installed
+ */
+async function listInstalledComponents(cwd: string, componentDir: string): Promise<string[]> {
+  try {
+    const entries = await readdir(join(cwd, componentDir, "starwind"), { withFileTypes: true });
+    return entries
+      .filter((entry) => entry.isDirectory())
+      .map((entry) => entry.name)
+      .sort();
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Read the Astro and Tailwind CSS version ranges from package.json
+ */
+async function readDependencies(
+  cwd: string,
+  warnings: string[],
+): Promise<{ astroVersion?: string; tailwindVersion?: string }> {
+  let packageJson: unknown;
+  try {
+    packageJson = await readJson(join(cwd, "package.json"));
+  } catch (error: any) {
+    warnings.push(`Could not read package.json: ${error.message}`);
+    return {};
+  }
+  if (packageJson === undefined) {
+    warnings.push(`No package.json in ${cwd}, is this the project directory?`);
+    return {};
+  }
+  if (!isObject(packageJson)) {
+    warnings.push("package.json is not a JSON object");
+    return {};
+  }
+
+  const dependencies = {
+    ...(isObject(packageJson.devDependencies) ? packageJson.devDependencies : {}),
+    ...(isObject(packageJson.dependencies) ? packageJson.dependencies : {}),
+  };
+  const version = (name: string): string | undefined =>
+    typeof dependencies[name] === "string" ? dependencies[name] : undefined;
+  const astroVersion = version("astro");
+  const tailwindVersion = version("tailwindcss");
+
+  if (!astroVersion) warnings.push("astro is not a dependency, Starwind components need Astro");
+  // Ranges like ^3.4.1 or ~3.4, a workspace: or latest range can't be checked
+  const tailwindMajor = Number(/^\D*(\d+)/.exec(tailwindVersion ?? "")?.[1]);
+  if (tailwindMajor < 4) {
+    warnings.push(`Tailwind CSS ${tailwindVersion} is installed, Starwind needs Tailwind CSS v4`);
+  }
+  return { astroVersion, tailwindVersion };
+}
+
+/**
+ * Recommend the next tool call from the project status
+ */
+function describeNextStep({ initialized, pro }: { initialized: boolean; pro: boolean }): string {
+  if (!initialized) {
+    return "Starwind UI is not initialized in this project. Run starwind_init first.";
+  }
+  if (!pro) {
+    return "Starwind UI is initialized, don't run starwind_init again. Use starwind_add to add components. To use Starwind Pro blocks, run starwind_init with pro=true.";
+  }
+  return "Starwind UI is initialized with Pro, don't run starwind_init again. Use starwind_add to add components and Pro blocks.";
+}
+
+/**
+ * Starwind Project Status tool definition
+ */
+export const starwindProjectStatusTool = defineTool({
+  name: "starwind_project_status",
+  title: "Starwind Project Status",
+  description: `Inspects a project and reports whether Starwind UI is initialized (starwind.config.json), whether it was initialized with Pro, the configured component directory and CSS file, the installed components, and the Astro and Tailwind CSS versions from package.json. ${WORKFLOW_RULES.starwind_project_status}`,
+  annotations: {
+    title: "Starwind Project Status",
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: false,
+  },
+  inputSchema: {
+    type: "object",
+    properties: {
+      cwd: {
+        type: "string",
+        description: "Project directory to inspect. Defaults to current directory.",
+      },
+    },
+  },
+  outputSchema: {
+    type: "object",
+    properties: {
+      cwd: { type: "string" },
+      initialized: { type: "boolean", description: "Whether starwind.config.json exists" },
+      pro: { type: "boolean", description: "Whether the project was initialized with Pro" },
+      componentDir: { type: "string" },
+      cssFile: { type: "string" },
+      installedComponents: { type: "array", items: { type: "string" } },
+      astroVersion: { type: "string" },
+      tailwindVersion: { type: "string" },
+      warnings: { type: "array", items: { type: "string" } },
+      nextStep: { type: "string" },
+    },
+    required: ["cwd", "initialized", "pro", "installedComponents", "warnings", "nextStep"],
+  },
+
+  /**
+   * Concise text summary of a result
+   */
+  summarize: (result: StarwindProjectStatusResult): string => {
+    const lines = [
+      `Starwind UI in ${result.cwd}: ${result.initialized ? `initialized${result.pro ? " with Pro" : ""}` : "not initialized"}`,
+    ];
+    if (result.initialized) {
+      lines.push(
+        `Components: ${result.installedComponents.join(", ") || "none"} (in ${result.componentDir ?? "unknown directory"}, CSS ${result.cssFile ?? "unknown"})`,
+      );
+    }
+    lines.push(
+      `Astro ${result.astroVersion ?? "not installed"}, Tailwind CSS ${result.tailwindVersion ?? "not installed"}`,
+    );
+    lines.push(...result.warnings.map((warning) => `Warning: ${warning}`));
+    lines.push(result.nextStep);
+    return lines.join("\n");
+  },
+
+  handler: async (args): Promise<StarwindProjectStatusResult> => {
+    const cwd = resolve(args.cwd ?? process.cwd());
+    const warnings: string[] = [];
+
+    const { initialized, config } = await readConfig(cwd, warnings);
+    const componentDir = initialized ? (config.componentDir ?? DEFAULT_COMPONENT_DIR) : undefined;
+    const [pro, installedComponents, dependencies] = await Promise.all([
+      initialized ? hasProRegistry(cwd) : false,
+      componentDir ? listInstalledComponents(cwd, componentDir) : [],
+      readDependencies(cwd, warnings),
+    ]);
+
+    return {
+      cwd,
+      initialized,
+      pro,
+      componentDir,
+      cssFile: config.tailwind?.css,
+      installedComponents,
+      ...dependencies,
+      warnings,
+      nextStep: describeNextStep({ initialized, pro }),
+    };
+  },
+});
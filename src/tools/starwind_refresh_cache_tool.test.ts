@@ -0,0 +1,202 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { DEFAULT_CONFIG } from "../config/settings";
+import { RateLimiter } from "../utils/rate_limiter";
+import { MemoryResponseCache } from "../utils/response_cache";
+import type { ToolContext } from "./define_tool";
+import { prefetchCache, starwindRefreshCacheTool } from "./starwind_refresh_cache_tool";
+
+const LLMS_URL = "https://starwind.dev/llms.txt";
+const LLMS_FULL_URL = "https://starwind.dev/llms-full.txt";
+const MANIFEST_URL = DEFAULT_CONFIG.pro.manifestUrl;
+
+function llmsTxt(...components: string[]): string {
+  return components
+    .map((slug) => `- [${slug}](https://starwind.dev/docs/components/${slug})`)
+    .join("\n");
+}
+
+function manifest(...ids: string[]): string {
+  return JSON.stringify({
+    $schema: "https://pro.starwind.dev/schema.json",
+    version: "1.0.0",
+    blocks: ids.map((id) => ({ id, name: id, installCommand: `npx starwind@latest add ${id}` })),
+  });
+}
+
+function createContext(): ToolContext {
+  return { config: DEFAULT_CONFIG, cache: new MemoryResponseCache(), limiter: new RateLimiter() };
+}
+
+describe("starwindRefreshCacheTool", () => {
+  let documents: Record<string, string>;
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    documents = {
+      [LLMS_URL]: llmsTxt("button", "card"),
+      [LLMS_FULL_URL]: "# Full docs",
+      [MANIFEST_URL]: manifest("hero-01", "footer-01"),
+    };
+    fetchMock = vi.fn(async (url: string) =>
+      url in documents ? new Response(documents[url]) : new Response("", { status: 404 }),
+    );
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("should have correct name and annotations", () => {
+    expect(starwindRefreshCacheTool.name).toBe("starwind_refresh_cache");
+    expect(starwindRefreshCacheTool.annotations.title).toBe(starwindRefreshCacheTool.title);
+    expect(starwindRefreshCacheTool.annotations.readOnlyHint).toBe(false);
+    expect(starwindRefreshCacheTool.annotations.idempotentHint).toBe(true);
+    expect(starwindRefreshCacheTool.annotations.destructiveHint).toBe(false);
+    expect(starwindRefreshCacheTool.annotations.openWorldHint).toBe(true);
+  });
+
+  it("should report added and removed components and blocks", async () => {
+    const context = createContext();
+    await starwindRefreshCacheTool.handler({ targets: ["components", "manifest"] }, context);
+    documents[LLMS_URL] = llmsTxt("button", "dialog", "tabs");
+    documents[MANIFEST_URL] = manifest("hero-01", "footer-01");
+
+    const result = await starwindRefreshCacheTool.handler(
+      { targets: ["components", "manifest"] },
+      context,
+    );
+
+    expect(result.refreshed).toEqual([
+      {
+        target: "components",
+        url: LLMS_URL,
+        status: "updated",
+        changes: { added: ["dialog", "tabs"], removed: ["card"], total: 3 },
+      },
+      {
+        target: "manifest",
+        url: MANIFEST_URL,
+        status: "unchanged",
+        changes: { added: [], removed: [], total: 2 },
+      },
+    ]);
+    expect(starwindRefreshCacheTool.summarize(result)).toContain(
+      "2 components added (dialog, tabs), 1 removed (card), 3 total",
+    );
+  });
+
+  it("should revalidate fresh entries and fetch llms.txt once for docs and components", async () => {
+    const context = createContext();
+    await context.cache.set({
+      url: LLMS_URL,
+      body: llmsTxt("button"),
+      headers: { etag: '"v1"' },
+      fetchedAt: Date.now(),
+    });
+
+    const result = await starwindRefreshCacheTool.handler({}, context);
+
+    expect(result.refreshed.map(({ target, status }) => [target, status])).toEqual([
+      ["docs", "updated"],
+      ["docs", "fetched"],
+      ["components", "updated"],
+      ["manifest", "fetched"],
+    ]);
+    const llmsCalls = fetchMock.mock.calls.filter(([url]) => url === LLMS_URL);
+    expect(llmsCalls).toHaveLength(1);
+    expect(llmsCalls[0][1]).toMatchObject({ headers: { "If-None-Match": '"v1"' } });
+  });
+
+  it("should refresh only the requested pages and report failures", async () => {
+    documents["https://starwind.dev/docs/components/button/markdown.md"] = "# Button";
+
+    const result = await starwindRefreshCacheTool.handler(
+      { pages: ["button", "missing"] },
+      createContext(),
+    );
+
+    expect(result.refreshed).toEqual([
+      {
+        target: "page",
+        url: "https://starwind.dev/docs/components/button/markdown.md",
+        status: "fetched",
+      },
+      expect.objectContaining({ target: "page", status: "failed", error: expect.any(String) }),
+    ]);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("should leave out the Pro manifest when search_starwind_pro_blocks is disabled", async () => {
+    const context = {
+      ...createContext(),
+      config: { ...DEFAULT_CONFIG, tools: { deny: ["search_starwind_pro_blocks"] } },
+    };
+
+    const result = await starwindRefreshCacheTool.handler({}, context);
+
+    expect(result.refreshed.map((document) => document.target)).toEqual([
+      "docs",
+      "docs",
+      "components",
+    ]);
+    expect(fetchMock).not.toHaveBeenCalledWith(MANIFEST_URL, expect.anything());
+    await expect(
+      starwindRefreshCacheTool.handler({ targets: ["manifest"] }, context),
+    ).rejects.toThrow("search_starwind_pro_blocks is disabled");
+  });
+
+  it("should not refresh anything in offline mode", async () => {
+    const context = createContext();
+    context.config = { ...DEFAULT_CONFIG, offline: { enabled: true } };
+
+    const result = await starwindRefreshCacheTool.handler({}, context);
+
+    expect(result).toEqual({ refreshed: [], offline: true });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
+
+describe("prefetchCache", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("should cache llms.txt and the Pro manifest", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (url: string) =>
+        url === LLMS_URL ? new Response(llmsTxt("button")) : new Response(manifest("hero-01")),
+      ),
+    );
+    const context = createContext();
+
+    await prefetchCache(context);
+
+    expect((await context.cache.get(LLMS_URL))?.body).toBe(llmsTxt("button"));
+    expect((await context.cache.get(MANIFEST_URL))?.body).toBe(manifest("hero-01"));
+  });
+
+  it("should skip the Pro manifest when search_starwind_pro_blocks is disabled", async () => {
+    const fetchMock = vi.fn(async () => new Response(llmsTxt("button")));
+    vi.stubGlobal("fetch", fetchMock);
+    const context = {
+      ...createContext(),
+      config: { ...DEFAULT_CONFIG, tools: { deny: ["search_starwind_pro_blocks"] } },
+    };
+
+    await prefetchCache(context);
+
+    expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([LLMS_URL]);
+  });
+
+  it("should not reject when a document can't be fetched", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => new Response("", { status: 404 })),
+    );
+
+    await expect(prefetchCache(createContext())).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,319 @@
+/**
+ * Starwind Refresh Cache Tool
+ * Force-refreshes cached docs, the component list, the Pro manifest and docs pages, and reports
+ * what changed
+ */
+
+import { logger } from "../utils/logger.js";
+import { parseManifest } from "../utils/pro_manifest.js";
+import { fetchCached } from "../utils/response_cache.js";
+import {
+  DEFAULT_TOOL_CONTEXT,
+  defineTool,
+  isToolEnabled,
+  type ToolArgs,
+  type ToolContext,
+} from "./define_tool.js";
+import { searchProBlocksTool } from "./search_pro_blocks_tool.js";
+import { parseComponentsFromLlmsTxt } from "./starwind_add_tool.js";
+import { getMarkdownUrl } from "./starwind_docs_tool.js";
+
+/**
+ * Refresh cache tool arguments, derived from the input schema
+ */
+export type StarwindRefreshCacheArgs = ToolArgs<typeof starwindRefreshCacheTool>;
+
+/**
+ * Entries added to and removed from a list by a refresh
+ */
+export interface RefreshChanges {
+  added: string[];
+  removed: string[];
+  /** Number of entries after the refresh */
+  total: number;
+}
+
+/**
+ * Outcome of refreshing a single document
+ * `fetched` means it wasn't cached before, so everything in it counts as added.
+ */
+export interface RefreshedDocument {
+  target: "docs" | "components" | "manifest" | "page";
+  url: string;
+  status: "fetched" | "updated" | "unchanged" | "failed";
+  /** Component slugs (components) or block ids (manifest) that changed */
+  changes?: RefreshChanges;
+  error?: string;
+}
+
+/**
+ * Result of the refresh cache tool
+ */
+export interface StarwindRefreshCacheResult {
+  refreshed: RefreshedDocument[];
+  /** Set in offline mode, where everything is served from the snapshot and nothing is refreshed */
+  offline?: boolean;
+}
+
+/**
+ * Cached body before a refresh, and the body or error after it
+ */
+interface Refresh {
+  previous?: string;
+  body?: string;
+  error?: string;
+}
+
+/**
+ * Revalidate a URL with the server, keeping the body it replaced
+ */
+async function refreshUrl(url: string, ttlSeconds: number, context: ToolContext): Promise<Refresh> {
+  const previous = (await context.cache.get(url))?.body;
+  try {
+    const { body } = await fetchCached(url, { ttlSeconds, refresh: true }, context);
+    return { previous, body };
+  } catch (error: any) {
+    return { previous, error: error.message };
+  }
+}
+
+/**
+ * Ids of the valid blocks in a manifest body, or undefined if it isn't a manifest
+ */
+function blockIds(body: string, manifestUrl: string): string[] | undefined {
+  try {
+    return parseManifest(body, manifestUrl).manifest.blocks.map((block) => block.id);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Compare the entries listed before and after a refresh
+ */
+function diffEntries(before: string[], after: string[]): RefreshChanges {
+  return {
+    added: after.filter((entry) => !before.includes(entry)),
+    removed: before.filter((entry) => !after.includes(entry)),
+    total: after.length,
+  };
+}
+
+/**
+ * Describe a refresh, listing the entries it changed if `list` extracts them from a body
+ */
+function describeRefresh(
+  target: RefreshedDocument["target"],
+  url: string,
+  { previous, body, error }: Refresh,
+  list?: (body: string) => string[] | undefined,
+): RefreshedDocument {
+  if (body === undefined) return { target, url, status: "failed", error };
+
+  const document: RefreshedDocument = {
+    target,
+    url,
+    status: previous === undefined ? "fetched" : previous === body ? "unchanged" : "updated",
+  };
+  if (list) {
+    const after = list(body);
+    if (!after) return { target, url, status: "failed", error: `Unexpected ${target} format` };
+    document.changes = diffEntries((previous !== undefined && list(previous)) || [], after);
+  }
+  return document;
+}
+
+/**
+ * Warm the cache with llms.txt and the Pro manifest, which the first starwind_add, starwind_docs
+ * and search_starwind_pro_blocks calls need
+ * The manifest is skipped when search_starwind_pro_blocks is disabled. Never rejects, failures
+ * are logged and left for the first tool call to retry.
+ */
+export async function prefetchCache(context: ToolContext): Promise<void> {
+  const { config } = context;
+  if (config.offline.enabled) return;
+
+  const documents: [url: string, ttlSeconds: number][] = [
+    [`${config.docs.baseUrl}/llms.txt`, config.docs.cacheTtl.components],
+  ];
+  if (isToolEnabled(config, searchProBlocksTool.name)) {
+    documents.push([config.pro.manifestUrl, config.pro.cacheTtl]);
+  }
+  await Promise.all(
+    documents.map(async ([url, ttlSeconds]) => {
+      try {
+        const { source } = await fetchCached(url, { ttlSeconds }, context);
+        logger.debug(`Prefetched ${url} (${source})`);
+      } catch (error: any) {
+        logger.warning(`Prefetch of ${url} failed: ${error.message}`);
+      }
+    }),
+  );
+}
+
+/**
+ * Starwind Refresh Cache tool definition
+ */
+export const starwindRefreshCacheTool = defineTool({
+  name: "starwind_refresh_cache",
+  title: "Refresh Starwind Cache",
+  description:
+    "Force-refreshes the cached Starwind docs (llms.txt, llms-full.txt), the component list, the Starwind Pro manifest or individual docs pages, instead of waiting for their cache TTL. Reports which documents changed and which components or blocks were added or removed. Use this when a recently released component or block is missing.",
+  annotations: {
+    title: "Refresh Starwind Cache",
+    // Rewrites the shared cache, which refreshing again leaves the same
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
+  inputSchema: {
+    type: "object",
+    properties: {
+      targets: {
+        type: "array",
+        items: { type: "string", enum: ["docs", "components", "manifest"] },
+        description:
+          "What to refresh: 'docs' (llms.txt and llms-full.txt), 'components' (the component list from llms.txt), 'manifest' (the Starwind Pro block manifest). Defaults to all three unless pages are given, without 'manifest' when search_starwind_pro_blocks is disabled.",
+      },
+      pages: {
+        type: "array",
+        items: { type: "string", minLength: 1 },
+        description:
+          "Docs page topics to refresh, as passed to starwind_docs (e.g., ['button', 'theming']).",
+      },
+    },
+  },
+  outputSchema: {
+    type: "object",
+    properties: {
+      refreshed: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            target: { type: "string", enum: ["docs", "components", "manifest", "page"] },
+            url: { type: "string" },
+            status: { type: "string", enum: ["fetched", "updated", "unchanged", "failed"] },
+            changes: {
+              type: "object",
+              properties: {
+                added: { type: "array", items: { type: "string" } },
+                removed: { type: "array", items: { type: "string" } },
+                total: { type: "number" },
+              },
+              required: ["added", "removed", "total"],
+            },
+            error: { type: "string" },
+          },
+          required: ["target", "url", "status"],
+        },
+      },
+      offline: {
+        type: "boolean",
+        description: "True when the server is in offline mode and nothing was refreshed",
+      },
+    },
+    required: ["refreshed"],
+  },
+
+  /**
+   * Concise text summary of a result
+   */
+  summarize: (result: StarwindRefreshCacheResult): string => {
+    if (result.offline) {
+      return "Offline mode is enabled, docs and the Pro manifest are served from the snapshot and can't be refreshed.";
+    }
+
+    const count = (status: RefreshedDocument["status"]) =>
+      result.refreshed.filter((document) => document.status === status).length;
+    const lines = [
+      `Refreshed ${result.refreshed.length} document(s): ${count("updated") + count("fetched")} changed, ${count("unchanged")} unchanged, ${count("failed")} failed.`,
+    ];
+    for (const { target, url, status, changes, error } of result.refreshed) {
+      let line = `- ${target} ${url}: ${status}`;
+      if (error) line += ` (${error})`;
+      if (changes) {
+        const noun = target === "manifest" ? "blocks" : "components";
+        line += `, ${changes.added.length} ${noun} added`;
+        if (changes.added.length > 0 && status !== "fetched") {
+          line += ` (${changes.added.join(", ")})`;
+        }
+        line += `, ${changes.removed.length} removed`;
+        if (changes.removed.length > 0) line += ` (${changes.removed.join(", ")})`;
+        line += `, ${changes.total} total`;
+      }
+      lines.push(line);
+    }
+    return lines.join("\n");
+  },
+
+  handler: async (args, context = DEFAULT_TOOL_CONTEXT): Promise<StarwindRefreshCacheResult> => {
+    const { config } = context;
+    if (config.offline.enabled) return { refreshed: [], offline: true };
+
+    // The manifest belongs to search_starwind_pro_blocks, never fetch it while that tool is disabled
+    const proEnabled = isToolEnabled(config, searchProBlocksTool.name);
+    if (!proEnabled && args.targets?.includes("manifest")) {
+      throw new Error(
+        `Can't refresh the Pro manifest, ${searchProBlocksTool.name} is disabled by the server configuration`,
+      );
+    }
+
+    const { pages = [] } = args;
+    const defaultTargets = proEnabled
+      ? (["docs", "components", "manifest"] as const)
+      : (["docs", "components"] as const);
+    const targets: readonly string[] = args.targets ?? (pages.length > 0 ? [] : defaultTargets);
+    const llmsUrl = `${config.docs.baseUrl}/llms.txt`;
+    const llmsFullUrl = `${config.docs.baseUrl}/llms-full.txt`;
+
+    // docs and components both cover llms.txt, refresh it once
+    const refreshes = new Map<string, Promise<Refresh>>();
+    const refresh = (url: string, ttlSeconds: number): Promise<Refresh> => {
+      let pending = refreshes.get(url);
+      if (!pending) {
+        pending = refreshUrl(url, ttlSeconds, context);
+        refreshes.set(url, pending);
+      }
+      return pending;
+    };
+
+    const documents: Promise<RefreshedDocument>[] = [];
+    if (targets.includes("docs")) {
+      for (const [url, ttl] of [
+        [llmsUrl, config.docs.cacheTtl.standard],
+        [llmsFullUrl, config.docs.cacheTtl.full],
+      ] as const) {
+        documents.push(refresh(url, ttl).then((result) => describeRefresh("docs", url, result)));
+      }
+    }
+    if (targets.includes("components")) {
+      documents.push(
+        refresh(llmsUrl, config.docs.cacheTtl.components).then((result) =>
+          describeRefresh("components", llmsUrl, result, parseComponentsFromLlmsTxt),
+        ),
+      );
+    }
+    if (targets.includes("manifest")) {
+      documents.push(
+        refresh(config.pro.manifestUrl, config.pro.cacheTtl).then((result) =>
+          describeRefresh("manifest", config.pro.manifestUrl, result, (body) =>
+            blockIds(body, config.pro.manifestUrl),
+          ),
+        ),
+      );
+    }
+    for (const topic of pages) {
+      // Unknown topics resolve to a component page URL, their 404 is reported as a failed refresh
+      const url = getMarkdownUrl(topic, config.docs.baseUrl);
+      documents.push(
+        refresh(url, config.docs.cacheTtl.page).then((result) =>
+          describeRefresh("page", url, result),
+        ),
+      );
+    }
+
+    return { refreshed: await Promise.all(documents) };
+  },
+});
@@ -0,0 +1,172 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { createServer } from "../create_server";
+import { type HttpTransportHandle, startHttpTransport } from "./http";
+
+const INITIALIZE_REQUEST = {
+  jsonrpc: "2.0",
+  id: 1,
+  method: "initialize",
+  params: {
+    protocolVersion: "2025-03-26",
+    capabilities: {},
+    clientInfo: { name: "test-client", version: "1.0.0" },
+  },
+};
+
+const MCP_HEADERS = {
+  "Content-Type": "application/json",
+  Accept: "application/json, text/event-stream",
+};
+
+describe("startHttpTransport", () => {
+  let handle: HttpTransportHandle;
+
+  beforeEach(async () => {
+    handle = await startHttpTransport(createServer, { port: 0, host: "127.0.0.1" });
+  });
+
+  afterEach(async () => {
+    await handle.close();
+  });
+
+  it("should create a session on initialize", async () => {
+    const response = await fetch(`${handle.url}/mcp`, {
+      method: "POST",
+      headers: MCP_HEADERS,
+      body: JSON.stringify(INITIALIZE_REQUEST),
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("mcp-session-id")).toBeTruthy();
+    expect(handle.sessionCount()).toBe(1);
+  });
+
+  it("should give each client its own session", async () => {
+    const first = await fetch(`${handle.url}/mcp`, {
+      method: "POST",
+      headers: MCP_HEADERS,
+      body: JSON.stringify(INITIALIZE_REQUEST),
+    });
+    const second = await fetch(`${handle.url}/mcp`, {
+      method: "POST",
+      headers: MCP_HEADERS,
+      body: JSON.stringify(INITIALIZE_REQUEST),
+    });
+
+    expect(first.headers.get("mcp-session-id")).not.toBe(second.headers.get("mcp-session-id"));
+    expect(handle.sessionCount()).toBe(2);
+  });
+
+  it("should list tools within a session", async () => {
+    const init = await fetch(`${handle.url}/mcp`, {
+      method: "POST",
+      headers: MCP_HEADERS,
+      body: JSON.stringify(INITIALIZE_REQUEST),
+    });
+    const sessionId = init.headers.get("mcp-session-id") as string;
+    await init.text();
+
+    const response = await fetch(`${handle.url}/mcp`, {
+      method: "POST",
+      headers: {
+        ...MCP_HEADERS,
+        "mcp-session-id": sessionId,
+        "mcp-protocol-version": "2025-03-26",
+      },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 2, method: "tools/list" }),
+    });
+    const text = await response.text();
+
+    expect(response.status).toBe(200);
+    expect(text).toContain("starwind_docs");
+    expect(text).toContain("starwind_add");
+  });
+
+  it("should reject requests without a session", async () => {
+    const response = await fetch(`${handle.url}/mcp`, {
+      method: "POST",
+      headers: MCP_HEADERS,
+      body: JSON.stringify({ jsonrpc: "2.0", id: 2, method: "tools/list" }),
+    });
+
+    expect(response.status).toBe(400);
+  });
+
+  it("should return 404 for unknown sessions", async () => {
+    const response = await fetch(`${handle.url}/mcp`, {
+      method: "POST",
+      headers: { ...MCP_HEADERS, "mcp-session-id": "unknown" },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 2, method: "tools/list" }),
+    });
+
+    expect(response.status).toBe(404);
+  });
+
+  it("should return 400 for malformed JSON", async () => {
+    const response = await fetch(`${handle.url}/mcp`, {
+      method: "POST",
+      headers: MCP_HEADERS,
+      body: "{not json",
+    });
+
+    expect(response.status).toBe(400);
+  });
+
+  it("should open an SSE stream on the fallback endpoint", async () => {
+    const controller = new AbortController();
+    const response = await fetch(`${handle.url}/sse`, { signal: controller.signal });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toContain("text/event-stream");
+
+    const reader = response.body!.getReader();
+    const { value } = await reader.read();
+    expect(new TextDecoder().decode(value)).toContain("/messages?sessionId=");
+    controller.abort();
+  });
+
+  it("should reject browser requests from other origins", async () => {
+    const rejected = await fetch(`${handle.url}/mcp`, {
+      method: "POST",
+      headers: { ...MCP_HEADERS, Origin: "http://evil.example" },
+      body: JSON.stringify(INITIALIZE_REQUEST),
+    });
+    const sse = await fetch(`${handle.url}/sse`, { headers: { Origin: "http://evil.example" } });
+    const local = await fetch(`${handle.url}/mcp`, {
+      method: "POST",
+      headers: { ...MCP_HEADERS, Origin: "http://localhost:4321" },
+      body: JSON.stringify(INITIALIZE_REQUEST),
+    });
+
+    expect(rejected.status).toBe(403);
+    expect(sse.status).toBe(403);
+    expect(local.status).toBe(200);
+    expect(handle.sessionCount()).toBe(1);
+  });
+
+  it("should accept configured origins", async () => {
+    const devcontainer = await startHttpTransport(createServer, {
+      port: 0,
+      host: "127.0.0.1",
+      allowedOrigins: ["https://my-codespace-3000.app.github.dev"],
+    });
+    try {
+      const response = await fetch(`${devcontainer.url}/mcp`, {
+        method: "POST",
+        headers: { ...MCP_HEADERS, Origin: "https://my-codespace-3000.app.github.dev" },
+        body: JSON.stringify(INITIALIZE_REQUEST),
+      });
+
+      expect(response.status).toBe(200);
+    } finally {
+      await devcontainer.close();
+    }
+  });
+
+  it("should return 404 for unknown paths", async () => {
+    const response = await fetch(`${handle.url}/nope`);
+
+    expect(response.status).toBe(404);
+  });
+});
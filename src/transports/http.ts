@@ -0,0 +1,257 @@
+/**
+ * HTTP Transport
+ * Serves the MCP server over Streamable HTTP, with the legacy SSE transport as a fallback
+ */
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { randomUUID } from "crypto";
+import { createServer as createHttpServer, IncomingMessage, ServerResponse } from "http";
+import type { AddressInfo } from "net";
+
+import { logger } from "../utils/logger.js";
+
+/**
+ * Options for the HTTP transport
+ */
+export interface HttpTransportOptions {
+  /** Port to listen on (0 picks a random free port) */
+  port: number;
+  /** Host interface to bind to */
+  host: string;
+  /** Browser origins allowed besides localhost, e.g. a forwarded devcontainer port */
+  allowedOrigins?: string[];
+}
+
+/**
+ * Handle to a running HTTP transport
+ */
+export interface HttpTransportHandle {
+  /** Base URL the server is listening on */
+  url: string;
+  /** Number of currently open client sessions */
+  sessionCount(): number;
+  /** Close all sessions and stop listening */
+  close(): Promise<void>;
+}
+
+/**
+ * A connected client session
+ */
+interface Session {
+  server: Server;
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+}
+
+// Endpoint paths
+const ENDPOINTS = {
+  mcp: "/mcp",
+  sse: "/sse",
+  messages: "/messages",
+};
+
+/**
+ * Hostnames of origins that are always allowed, pages served from the local machine
+ */
+const LOOPBACK_HOSTNAMES = new Set(["localhost", "127.0.0.1", "[::1]"]);
+
+/**
+ * Check the Origin header against the allowed origins, to prevent DNS rebinding
+ * Requests without an Origin don't come from a browser page and are allowed.
+ */
+function isOriginAllowed(origin: string | undefined, allowedOrigins: string[]): boolean {
+  if (origin === undefined) return true;
+
+  let url: URL;
+  try {
+    url = new URL(origin);
+  } catch {
+    return false;
+  }
+  if (LOOPBACK_HOSTNAMES.has(url.hostname)) return true;
+  return allowedOrigins.some((allowed) => {
+    try {
+      return new URL(allowed).origin === url.origin;
+    } catch {
+      return false;
+    }
+  });
+}
+
+/**
+ * Read and parse a JSON request body
+ */
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(typeof chunk === "string" ? Buffer.from(chunk) : chunk);
+  }
+  const raw = Buffer.concat(chunks).toString("utf8");
+  return raw.length > 0 ? JSON.parse(raw) : undefined;
+}
+
+/**
+ * Write a JSON-RPC error response
+ */
+function sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify({ jsonrpc: "2.0", error: { code, message }, id: null }));
+}
+
+/**
+ * Start serving MCP over HTTP
+ *
+ * Each client gets its own session (and its own server instance from `createServer`):
+ * - `POST/GET/DELETE /mcp` - Streamable HTTP transport, sessions tracked via the `mcp-session-id` header
+ * - `GET /sse` + `POST /messages?sessionId=...` - deprecated SSE transport for older clients
+ *
+ * Requests from browser pages are rejected unless their Origin is localhost or in
+ * `allowedOrigins`, so a web page can't reach the server through DNS rebinding.
+ *
+ * @param createServer - Factory creating a fully configured server for each session
+ * @param options - Port and host to listen on, and the allowed origins
+ */
+export async function startHttpTransport(
+  createServer: () => Server,
+  options: HttpTransportOptions,
+): Promise<HttpTransportHandle> {
+  const sessions = new Map<string, Session>();
+
+  async function handleMcpRequest(req: IncomingMessage, res: ServerResponse) {
+    const sessionId = req.headers["mcp-session-id"];
+    const session = typeof sessionId === "string" ? sessions.get(sessionId) : undefined;
+
+    let body: unknown;
+    if (req.method === "POST") {
+      try {
+        body = await readJsonBody(req);
+      } catch {
+        sendJsonRpcError(res, 400, -32700, "Parse error: invalid JSON body");
+        return;
+      }
+    }
+
+    if (session) {
+      if (!(session.transport instanceof StreamableHTTPServerTransport)) {
+        sendJsonRpcError(res, 400, -32000, "Session uses the SSE transport, not Streamable HTTP");
+        return;
+      }
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (sessionId !== undefined) {
+      sendJsonRpcError(res, 404, -32001, "Session not found");
+      return;
+    }
+
+    if (req.method !== "POST" || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, -32000, "Bad Request: no valid session ID provided");
+      return;
+    }
+
+    // New client: create a dedicated server and transport for this session
+    const server = createServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        sessions.set(id, { server, transport });
+        logger.info(`Opened Streamable HTTP session ${id}`);
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        sessions.delete(transport.sessionId);
+        logger.info(`Closed Streamable HTTP session ${transport.sessionId}`);
+      }
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  async function handleSseConnect(res: ServerResponse) {
+    const server = createServer();
+    const transport = new SSEServerTransport(ENDPOINTS.messages, res);
+    sessions.set(transport.sessionId, { server, transport });
+    logger.info(`Opened SSE session ${transport.sessionId}`);
+    res.on("close", () => {
+      sessions.delete(transport.sessionId);
+      logger.info(`Closed SSE session ${transport.sessionId}`);
+    });
+
+    // connect() starts the transport, which opens the SSE stream
+    await server.connect(transport);
+  }
+
+  async function handleSseMessage(req: IncomingMessage, res: ServerResponse, url: URL) {
+    const sessionId = url.searchParams.get("sessionId");
+    const session = sessionId ? sessions.get(sessionId) : undefined;
+    if (!session || !(session.transport instanceof SSEServerTransport)) {
+      sendJsonRpcError(res, 404, -32001, "Session not found");
+      return;
+    }
+
+    let body: unknown;
+    try {
+      body = await readJsonBody(req);
+    } catch {
+      sendJsonRpcError(res, 400, -32700, "Parse error: invalid JSON body");
+      return;
+    }
+    await session.transport.handlePostMessage(req, res, body);
+  }
+
+  const httpServer = createHttpServer(async (req, res) => {
+    const url = new URL(req.url ?? "/", `http://${req.headers.host ?? "localhost"}`);
+
+    const origin = req.headers.origin;
+    if (!isOriginAllowed(origin, options.allowedOrigins ?? [])) {
+      logger.warning(`Rejected ${req.method} ${url.pathname} from origin ${origin}`);
+      sendJsonRpcError(res, 403, -32000, `Forbidden: origin ${origin} is not allowed`);
+      return;
+    }
+
+    try {
+      if (url.pathname === ENDPOINTS.mcp) {
+        await handleMcpRequest(req, res);
+      } else if (url.pathname === ENDPOINTS.sse && req.method === "GET") {
+        await handleSseConnect(res);
+      } else if (url.pathname === ENDPOINTS.messages && req.method === "POST") {
+        await handleSseMessage(req, res, url);
+      } else {
+        res.writeHead(404, { "Content-Type": "text/plain" }).end("Not Found");
+      }
+    } catch (error: any) {
+      logger.error(`Error handling ${req.method} ${url.pathname}: ${error.message}`);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, -32603, "Internal server error");
+      }
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off("error", reject);
+      resolve();
+    });
+  });
+
+  const address = httpServer.address() as AddressInfo;
+
+  return {
+    url: `http://${options.host}:${address.port}`,
+    sessionCount: () => sessions.size,
+    close: async () => {
+      const open = Array.from(sessions.values());
+      sessions.clear();
+      await Promise.all(open.map(({ server }) => server.close()));
+      await new Promise<void>((resolve, reject) => {
+        httpServer.close((error) => (error ? reject(error) : resolve()));
+        httpServer.closeAllConnections();
+      });
+    },
+  };
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+
+import { rankCompletions, scoreCompletion } from "./fuzzy_match";
+
+describe("scoreCompletion", () => {
+  it("should rank exact over prefix over substring over fuzzy matches", () => {
+    const exact = scoreCompletion("button", "button");
+    const prefix = scoreCompletion("button-group", "button");
+    const substring = scoreCompletion("radio-group", "group");
+    const fuzzy = scoreCompletion("dropdown", "drpdn");
+
+    expect(exact).toBeGreaterThan(prefix);
+    expect(prefix).toBeGreaterThan(substring);
+    expect(substring).toBeGreaterThan(fuzzy);
+    expect(fuzzy).toBeGreaterThan(0);
+  });
+
+  it("should return 0 when characters are missing or out of order", () => {
+    expect(scoreCompletion("button", "xyz")).toBe(0);
+    expect(scoreCompletion("tabs", "sbat")).toBe(0);
+  });
+
+  it("should be case insensitive", () => {
+    expect(scoreCompletion("Button", "BUT")).toBeGreaterThan(0);
+  });
+});
+
+describe("rankCompletions", () => {
+  const components = [
+    "button",
+    "button-group",
+    "tabs",
+    "table",
+    "textarea",
+    "alert-dialog",
+    "dialog",
+  ];
+
+  it("should return prefix matches before substring matches", () => {
+    expect(rankCompletions(components, "dia")).toEqual(["dialog", "alert-dialog"]);
+  });
+
+  it("should prefer shorter prefix matches", () => {
+    expect(rankCompletions(components, "but")).toEqual(["button", "button-group"]);
+  });
+
+  it("should include fuzzy matches", () => {
+    expect(rankCompletions(components, "txa")).toEqual(["textarea"]);
+  });
+
+  it("should return all candidates alphabetically for an empty value", () => {
+    expect(rankCompletions(["tabs", "button", "alert"], "")).toEqual(["alert", "button", "tabs"]);
+  });
+
+  it("should remove duplicates", () => {
+    expect(rankCompletions(["button", "button"], "b")).toEqual(["button"]);
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * Ranking of completion candidates by prefix, substring and fuzzy matches
+ */
+
+/**
+ * Score how well a candidate matches the typed value
+ *
+ * Higher is better; 0 means no match. Prefix matches rank above substring matches,
+ * which rank above fuzzy (in-order subsequence) matches.
+ *
+ * @param candidate - The candidate value
+ * @param value - What the user has typed so far
+ * @returns The match score
+ */
+export function scoreCompletion(candidate: string, value: string): number {
+  const c = candidate.toLowerCase();
+  const v = value.toLowerCase().trim();
+
+  if (v.length === 0) return 1;
+  if (c === v) return 1000;
+  if (c.startsWith(v)) return 800 - c.length;
+  if (c.includes(v)) return 600 - c.indexOf(v) * 10 - c.length;
+
+  // Fuzzy: every typed character must appear in order; tighter matches score higher
+  let position = -1;
+  let gaps = 0;
+  for (const char of v) {
+    const next = c.indexOf(char, position + 1);
+    if (next === -1) return 0;
+    if (position !== -1) gaps += next - position - 1;
+    position = next;
+  }
+  return Math.max(1, 400 - gaps * 10 - c.length);
+}
+
+/**
+ * Rank candidates against the typed value, dropping those that don't match
+ *
+ * @param candidates - Values to choose from (duplicates are removed)
+ * @param value - What the user has typed so far
+ * @returns Matching candidates, best match first (ties sorted alphabetically)
+ *
+ * @example
+ * ```ts
+ * rankCompletions(["button", "button-group", "tabs"], "but");
+ * // ["button", "button-group"]
+ * ```
+ */
+export function rankCompletions(candidates: string[], value: string): string[] {
+  return Array.from(new Set(candidates))
+    .map((candidate) => ({ candidate, score: scoreCompletion(candidate, value) }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score || a.candidate.localeCompare(b.candidate))
+    .map(({ candidate }) => candidate);
+}
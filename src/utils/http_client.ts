@@ -0,0 +1,182 @@
+/**
+ * Shared HTTP client for fetching docs, llms.txt and the Pro manifest
+ * Adds per-request timeouts, retries with exponential backoff and conditional requests
+ * on top of the global fetch.
+ */
+import { logger } from "./logger.js";
+import { getProxyForUrl } from "./proxy.js";
+
+/**
+ * Validators from a previous response, sent back to revalidate a cached copy
+ */
+export interface CacheValidators {
+  etag?: string;
+  lastModified?: string;
+}
+
+/**
+ * Options for a single request
+ */
+export interface FetchOptions {
+  /** Abort each attempt after this many milliseconds */
+  timeoutMs: number;
+  /** Number of retries after the first attempt for network errors, timeouts, 429s and 5xx */
+  retries: number;
+  /** Delay before the first retry, doubled for each further retry (defaults to 250) */
+  retryDelayMs?: number;
+  /** Validators of a cached copy, sent as If-None-Match / If-Modified-Since */
+  validators?: CacheValidators;
+}
+
+/**
+ * Result of a request
+ * `notModified` is only ever true when validators were sent and the server answered 304.
+ */
+export type FetchResult =
+  | { notModified: true; status: 304; validators: CacheValidators }
+  | { notModified: false; status: number; body: string; validators: CacheValidators };
+
+/**
+ * Why a request failed
+ * `offline` means the document isn't in the offline snapshot, no request was made.
+ */
+export type HttpErrorKind = "timeout" | "network" | "status" | "offline";
+
+/**
+ * Error thrown for every failed request, after retries are exhausted
+ */
+export class HttpError extends Error {
+  constructor(
+    message: string,
+    readonly url: string,
+    readonly kind: HttpErrorKind,
+    readonly status?: number,
+  ) {
+    super(message);
+    this.name = "HttpError";
+  }
+
+  /** Whether the request may succeed if tried again */
+  get retryable(): boolean {
+    if (this.kind === "offline") return false;
+    if (this.kind !== "status") return true;
+    return this.status === 429 || (this.status !== undefined && this.status >= 500);
+  }
+}
+
+const DEFAULT_RETRY_DELAY_MS = 250;
+
+// TLS failures that usually mean a proxy or firewall re-signs HTTPS traffic with its own CA
+const UNTRUSTED_CERTIFICATE_CODES = new Set([
+  "SELF_SIGNED_CERT_IN_CHAIN",
+  "DEPTH_ZERO_SELF_SIGNED_CERT",
+  "UNABLE_TO_GET_ISSUER_CERT",
+  "UNABLE_TO_GET_ISSUER_CERT_LOCALLY",
+  "UNABLE_TO_VERIFY_LEAF_SIGNATURE",
+]);
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Describe a failed fetch, naming the proxy it went through and how to fix common setup problems
+ * fetch reports every failure as "fetch failed", the actual reason is in `cause`.
+ */
+function describeNetworkError(url: string, error: any): string {
+  const proxy = getProxyForUrl(url);
+  const cause = error?.cause;
+  let message = `Request to ${url}${proxy ? ` via proxy ${proxy}` : ""} failed: ${error?.message ?? error}`;
+  if (cause?.message) message += ` (${cause.message})`;
+
+  if (UNTRUSTED_CERTIFICATE_CODES.has(cause?.code)) {
+    message +=
+      ". The server certificate isn't trusted, if a proxy inspects HTTPS traffic add its CA certificate with network.caFiles or NODE_EXTRA_CA_CERTS";
+  } else if (proxy) {
+    message += `. Check that the proxy is reachable, or add ${new URL(url).hostname} to NO_PROXY to connect directly`;
+  }
+  return message;
+}
+
+/**
+ * Make a single attempt, converting every failure into an HttpError
+ */
+async function attempt(url: string, options: FetchOptions): Promise<FetchResult> {
+  const headers: Record<string, string> = {};
+  if (options.validators?.etag) headers["If-None-Match"] = options.validators.etag;
+  if (options.validators?.lastModified) {
+    headers["If-Modified-Since"] = options.validators.lastModified;
+  }
+
+  let response: Response;
+  let body: string;
+  try {
+    response = await fetch(url, { headers, signal: AbortSignal.timeout(options.timeoutMs) });
+    // Read the body under the same timeout, a stalled download counts as a timeout too
+    body = response.status === 304 ? "" : await response.text();
+  } catch (error: any) {
+    if (error?.name === "TimeoutError" || error?.name === "AbortError") {
+      const proxy = getProxyForUrl(url);
+      throw new HttpError(
+        `Request to ${url}${proxy ? ` via proxy ${proxy}` : ""} timed out after ${options.timeoutMs}ms`,
+        url,
+        "timeout",
+      );
+    }
+    throw new HttpError(describeNetworkError(url, error), url, "network");
+  }
+
+  const validators: CacheValidators = {
+    etag: response.headers.get("etag") ?? options.validators?.etag,
+    lastModified: response.headers.get("last-modified") ?? options.validators?.lastModified,
+  };
+
+  if (response.status === 304 && options.validators) {
+    return { notModified: true, status: 304, validators };
+  }
+  if (!response.ok) {
+    throw new HttpError(
+      `Request to ${url} failed: HTTP ${response.status}${response.statusText ? ` ${response.statusText}` : ""}`,
+      url,
+      "status",
+      response.status,
+    );
+  }
+
+  return { notModified: false, status: response.status, body, validators };
+}
+
+/**
+ * GET a URL as text
+ *
+ * @param url - The URL to fetch
+ * @param options - Timeout, retry and revalidation options
+ * @returns The body and validators, or `notModified` if the cached copy is still current
+ * @throws {HttpError} If the request still fails after all retries, or fails with a non-retryable status
+ *
+ * @example
+ * ```ts
+ * const cached = cache.get(url);
+ * const result = await fetchText(url, { timeoutMs: 10000, retries: 2, validators: cached?.validators });
+ * const body = result.notModified ? cached.body : result.body;
+ * ```
+ */
+export async function fetchText(url: string, options: FetchOptions): Promise<FetchResult> {
+  const retryDelayMs = options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+
+  for (let retry = 0; ; retry++) {
+    try {
+      return await attempt(url, options);
+    } catch (error) {
+      const httpError = error as HttpError;
+      if (!httpError.retryable || retry >= options.retries) throw httpError;
+
+      const delay = retryDelayMs * 2 ** retry;
+      logger.debug(`${httpError.message}, retrying in ${delay}ms`, {
+        attempt: retry + 1,
+        retries: options.retries,
+      });
+      await sleep(delay);
+    }
+  }
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+
+import { type JsonObjectSchema, validateSchema } from "./json_schema";
+
+const schema = {
+  type: "object",
+  properties: {
+    components: { type: "array", items: { type: "string" }, minItems: 1 },
+    packageManager: { type: "string", enum: ["npm", "yarn", "pnpm"] },
+    limit: { type: "integer", minimum: 1, maximum: 10 },
+    full: { type: ["boolean", "null"] },
+  },
+  required: ["components"],
+} as const satisfies JsonObjectSchema;
+
+describe("validateSchema", () => {
+  it("should accept valid values", () => {
+    expect(
+      validateSchema(schema, { components: ["button"], packageManager: "pnpm", limit: 5 }),
+    ).toEqual([]);
+    expect(validateSchema(schema, { components: ["button"], full: null })).toEqual([]);
+  });
+
+  it("should report type mismatches with the offending path", () => {
+    expect(validateSchema(schema, { components: "button" })).toEqual([
+      { path: "components", message: "expected array, received string" },
+    ]);
+    expect(validateSchema(schema, { components: ["button", 3] })).toEqual([
+      { path: "components.1", message: "expected string, received integer" },
+    ]);
+  });
+
+  it("should report missing required properties", () => {
+    expect(validateSchema(schema, {})).toEqual([{ path: "components", message: "is required" }]);
+  });
+
+  it("should report enum, range and length violations", () => {
+    const issues = validateSchema(schema, { components: [], packageManager: "bun", limit: 20 });
+
+    expect(issues.map((issue) => issue.path)).toEqual(["components", "packageManager", "limit"]);
+    expect(issues[1].message).toBe('must be one of "npm", "yarn", "pnpm", received "bun"');
+  });
+
+  it("should reject a non-object root", () => {
+    expect(validateSchema(schema, "button")).toEqual([
+      { path: "(root)", message: "expected object, received string" },
+    ]);
+  });
+
+  it("should reject unknown properties only when additionalProperties is false", () => {
+    expect(validateSchema(schema, { components: ["button"], extra: 1 })).toEqual([]);
+    expect(
+      validateSchema({ ...schema, additionalProperties: false }, { components: ["a"], extra: 1 }),
+    ).toEqual([{ path: "extra", message: "is not a recognized property" }]);
+    expect(
+      validateSchema(
+        { ...schema, additionalProperties: false },
+        JSON.parse('{"components":["a"],"constructor":1}'),
+      ),
+    ).toEqual([{ path: "constructor", message: "is not a recognized property" }]);
+  });
+
+  it("should check string patterns", () => {
+    const urlSchema = { type: "string", pattern: "^https?://" } as const;
+
+    expect(validateSchema(urlSchema, "https://starwind.dev")).toEqual([]);
+    expect(validateSchema(urlSchema, "starwind.dev", "docs.baseUrl")).toEqual([
+      { path: "docs.baseUrl", message: 'must match ^https?://, received "starwind.dev"' },
+    ]);
+  });
+});
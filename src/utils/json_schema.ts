@@ -0,0 +1,236 @@
+/**
+ * Minimal JSON Schema support for tool input schemas
+ * Derives TypeScript types from schemas and validates values against them at runtime,
+ * so a tool's schema is the single source of truth for both.
+ */
+
+/**
+ * JSON Schema primitive type names
+ */
+export type JsonSchemaType =
+  | "string"
+  | "number"
+  | "integer"
+  | "boolean"
+  | "array"
+  | "object"
+  | "null";
+
+/**
+ * The subset of JSON Schema used by tool schemas
+ */
+export interface JsonSchema {
+  type?: JsonSchemaType | readonly JsonSchemaType[];
+  description?: string;
+  enum?: readonly (string | number | boolean | null)[];
+  default?: unknown;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  /** Regular expression string values must match */
+  pattern?: string;
+  properties?: { readonly [key: string]: JsonSchema };
+  required?: readonly string[];
+  additionalProperties?: boolean | JsonSchema;
+}
+
+/**
+ * A JSON Schema describing an object, as required for tool input schemas
+ */
+export interface JsonObjectSchema extends JsonSchema {
+  type: "object";
+  properties: { readonly [key: string]: JsonSchema };
+}
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+type RequiredKeys<S> = S extends { required: readonly (infer R)[] } ? R : never;
+
+type FromObject<S> = S extends { properties: infer P }
+  ? Simplify<
+      {
+        -readonly [K in keyof P as K extends RequiredKeys<S> ? K : never]: FromSchema<P[K]>;
+      } & {
+        -readonly [K in keyof P as K extends RequiredKeys<S> ? never : K]?: FromSchema<P[K]>;
+      }
+    >
+  : Record<string, unknown>;
+
+type FromType<T, S> = T extends "string"
+  ? string
+  : T extends "number" | "integer"
+    ? number
+    : T extends "boolean"
+      ? boolean
+      : T extends "null"
+        ? null
+        : T extends "array"
+          ? S extends { items: infer I }
+            ? FromSchema<I>[]
+            : unknown[]
+          : T extends "object"
+            ? FromObject<S>
+            : unknown;
+
+/**
+ * The TypeScript type of values matching a schema
+ *
+ * @example
+ * ```ts
+ * const schema = {
+ *   type: "object",
+ *   properties: { topic: { type: "string" }, full: { type: "boolean" } },
+ *   required: ["topic"],
+ * } as const;
+ * type Args = FromSchema<typeof schema>; // { topic: string; full?: boolean }
+ * ```
+ */
+export type FromSchema<S> = S extends { enum: readonly (infer E)[] }
+  ? E
+  : S extends { type: infer T }
+    ? T extends readonly (infer U)[]
+      ? FromType<U, S>
+      : FromType<T, S>
+    : unknown;
+
+/**
+ * A single validation failure
+ */
+export interface SchemaIssue {
+  /** Dotted path to the offending value, e.g. "components" or "components.0" */
+  path: string;
+  message: string;
+}
+
+/**
+ * Describe the JSON type of a value for error messages
+ */
+function describeType(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number" && Number.isInteger(value)) return "integer";
+  return typeof value;
+}
+
+/**
+ * Check whether a value matches a JSON Schema type name
+ */
+function matchesType(value: unknown, type: JsonSchemaType): boolean {
+  switch (type) {
+    case "string":
+      return typeof value === "string";
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "integer":
+      return typeof value === "number" && Number.isInteger(value);
+    case "boolean":
+      return typeof value === "boolean";
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return typeof value === "object" && value !== null && !Array.isArray(value);
+    case "null":
+      return value === null;
+  }
+}
+
+/**
+ * Validate a value against a schema
+ *
+ * @param schema - The schema to validate against
+ * @param value - The value to check
+ * @param path - Path of the value, used to prefix issue paths
+ * @returns All validation issues (empty if the value is valid)
+ */
+export function validateSchema(schema: JsonSchema, value: unknown, path = ""): SchemaIssue[] {
+  const at = path || "(root)";
+
+  if (schema.type !== undefined) {
+    const types = (Array.isArray(schema.type) ? schema.type : [schema.type]) as JsonSchemaType[];
+    if (!types.some((type) => matchesType(value, type))) {
+      return [
+        { path: at, message: `expected ${types.join(" or ")}, received ${describeType(value)}` },
+      ];
+    }
+  }
+
+  if (schema.enum && !schema.enum.includes(value as string | number | boolean | null)) {
+    return [
+      {
+        path: at,
+        message: `must be one of ${schema.enum.map((v) => JSON.stringify(v)).join(", ")}, received ${JSON.stringify(value)}`,
+      },
+    ];
+  }
+
+  const issues: SchemaIssue[] = [];
+
+  if (
+    typeof value === "string" &&
+    schema.minLength !== undefined &&
+    value.length < schema.minLength
+  ) {
+    issues.push({ path: at, message: `must be at least ${schema.minLength} character(s) long` });
+  }
+
+  if (typeof value === "string" && schema.pattern !== undefined) {
+    if (!new RegExp(schema.pattern).test(value)) {
+      issues.push({ path: at, message: `must match ${schema.pattern}, received "${value}"` });
+    }
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      issues.push({ path: at, message: `must be >= ${schema.minimum}, received ${value}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      issues.push({ path: at, message: `must be <= ${schema.maximum}, received ${value}` });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      issues.push({ path: at, message: `must contain at least ${schema.minItems} item(s)` });
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      issues.push({ path: at, message: `must contain at most ${schema.maxItems} item(s)` });
+    }
+    if (schema.items) {
+      value.forEach((item, index) => {
+        issues.push(...validateSchema(schema.items as JsonSchema, item, join(path, String(index))));
+      });
+    }
+  }
+
+  if (matchesType(value, "object")) {
+    const object = value as Record<string, unknown>;
+    const properties = schema.properties ?? {};
+
+    for (const key of schema.required ?? []) {
+      if (object[key] === undefined) {
+        issues.push({ path: join(path, key), message: "is required" });
+      }
+    }
+
+    for (const [key, propertyValue] of Object.entries(object)) {
+      if (propertyValue === undefined) continue;
+      const propertySchema = Object.hasOwn(properties, key) ? properties[key] : undefined;
+      if (propertySchema) {
+        issues.push(...validateSchema(propertySchema, propertyValue, join(path, key)));
+      } else if (schema.additionalProperties === false) {
+        issues.push({ path: join(path, key), message: "is not a recognized property" });
+      } else if (typeof schema.additionalProperties === "object") {
+        issues.push(...validateSchema(schema.additionalProperties, propertyValue, join(path, key)));
+      }
+    }
+  }
+
+  return issues;
+}
+
+function join(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
@@ -0,0 +1,202 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { LoggingMessageNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
+import { mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { isLoggingLevel, logger } from "./logger";
+
+describe("logger", () => {
+  let stderrWrite: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    stderrWrite = vi.spyOn(process.stderr, "write").mockImplementation(() => true);
+    logger.configure({ level: "info", file: "" });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe("stderr fallback", () => {
+    it("should write to stderr when no client is connected", () => {
+      logger.info("hello", { answer: 42 });
+
+      expect(stderrWrite).toHaveBeenCalledTimes(1);
+      const line = stderrWrite.mock.calls[0][0] as string;
+      expect(line).toContain("[info] hello");
+      expect(line).toContain('{"answer":42}');
+    });
+
+    it("should skip messages below the configured level", () => {
+      logger.debug("noisy");
+
+      expect(stderrWrite).not.toHaveBeenCalled();
+    });
+
+    it("should honour a lower configured level", () => {
+      logger.configure({ level: "debug" });
+      logger.debug("noisy");
+
+      expect(stderrWrite).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("log file", () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), "starwind-logger-"));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("should append messages to the log file", () => {
+      const file = join(dir, "server.log");
+      logger.configure({ file });
+
+      logger.warning("first");
+      logger.error("second");
+
+      const contents = readFileSync(file, "utf8");
+      expect(contents).toContain("[warning] first");
+      expect(contents).toContain("[error] second");
+    });
+  });
+
+  describe("MCP notifications", () => {
+    let server: Server;
+    let client: Client;
+    let received: Array<{ level: string; data: unknown }>;
+
+    beforeEach(async () => {
+      received = [];
+      server = new Server({ name: "test", version: "0.0.0" }, { capabilities: { logging: {} } });
+      logger.attach(server);
+      client = new Client({ name: "test-client", version: "0.0.0" });
+      client.setNotificationHandler(LoggingMessageNotificationSchema, (notification) => {
+        received.push(notification.params);
+      });
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+    });
+
+    afterEach(async () => {
+      await client.close();
+      logger.detach(server);
+    });
+
+    const flush = () => new Promise((resolve) => setTimeout(resolve, 10));
+
+    it("should send messages to the client instead of stderr", async () => {
+      logger.info("to client", { tool: "starwind_add" });
+      await flush();
+
+      expect(received).toEqual([
+        {
+          level: "info",
+          logger: "starwind-ui-mcp",
+          data: { message: "to client", tool: "starwind_add" },
+        },
+      ]);
+      expect(stderrWrite).not.toHaveBeenCalled();
+    });
+
+    it("should honour logging/setLevel from the client", async () => {
+      await client.setLoggingLevel("error");
+
+      logger.warning("filtered");
+      logger.error("kept");
+      await flush();
+
+      expect(received.map((r) => r.level)).toEqual(["error"]);
+    });
+
+    it("should send debug messages once the client lowers its level", async () => {
+      await client.setLoggingLevel("debug");
+
+      logger.debug("checking lockfiles");
+      await flush();
+
+      expect(received.map((r) => r.level)).toEqual(["debug"]);
+    });
+
+    it("should use the configured level until the client sets one", async () => {
+      logger.debug("checking lockfiles");
+      logger.info("kept");
+      await flush();
+
+      expect(received.map((r) => r.level)).toEqual(["info"]);
+    });
+
+    it("should only send messages logged in a session to that session's client", async () => {
+      const other = new Server(
+        { name: "other", version: "0.0.0" },
+        { capabilities: { logging: {} } },
+      );
+      logger.attach(other);
+      const otherClient = new Client({ name: "other-client", version: "0.0.0" });
+      const otherReceived: unknown[] = [];
+      otherClient.setNotificationHandler(LoggingMessageNotificationSchema, (notification) => {
+        otherReceived.push(notification.params);
+      });
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      await Promise.all([other.connect(serverTransport), otherClient.connect(clientTransport)]);
+
+      try {
+        await logger.runInSession(server, async () => {
+          await flush();
+          logger.info("installing button");
+        });
+        logger.info("cache refreshed");
+        await flush();
+
+        expect(received.map((r) => r.data)).toEqual([
+          { message: "installing button" },
+          { message: "cache refreshed" },
+        ]);
+        expect(otherReceived).toHaveLength(1);
+      } finally {
+        await otherClient.close();
+        logger.detach(other);
+      }
+    });
+
+    it("should fall back to stderr after the server closes", async () => {
+      await client.close();
+
+      logger.info("after close");
+
+      expect(stderrWrite).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("captureConsole", () => {
+    it("should route console.log to the logger", () => {
+      const originalLog = console.log;
+      const stdoutWrite = vi.spyOn(process.stdout, "write").mockImplementation(() => true);
+      try {
+        logger.captureConsole();
+        console.log("stray %s", "output");
+      } finally {
+        console.log = originalLog;
+      }
+
+      expect(stdoutWrite).not.toHaveBeenCalled();
+      expect(stderrWrite.mock.calls[0][0]).toContain("[info] stray output");
+    });
+  });
+
+  describe("isLoggingLevel", () => {
+    it("should accept MCP logging levels only", () => {
+      expect(isLoggingLevel("warning")).toBe(true);
+      expect(isLoggingLevel("warn")).toBe(false);
+      expect(isLoggingLevel("toString")).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,173 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { type LoggingLevel, SetLevelRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import { AsyncLocalStorage } from "async_hooks";
+import { appendFileSync } from "fs";
+import { format } from "util";
+
+/**
+ * Severity order of MCP logging levels (RFC 5424)
+ */
+const LEVEL_SEVERITY: Record<LoggingLevel, number> = {
+  debug: 0,
+  info: 1,
+  notice: 2,
+  warning: 3,
+  error: 4,
+  critical: 5,
+  alert: 6,
+  emergency: 7,
+};
+
+/**
+ * Name reported as the `logger` of MCP log notifications
+ */
+const LOGGER_NAME = "starwind-ui-mcp";
+
+/**
+ * Configuration options for the logger
+ */
+export interface LoggerOptions {
+  /** Minimum level written to stderr and the log file (defaults to 'info') */
+  level?: LoggingLevel;
+  /** Optional file to append every log line to */
+  file?: string;
+}
+
+/**
+ * Check whether a string is a valid MCP logging level
+ */
+export function isLoggingLevel(value: string): value is LoggingLevel {
+  return Object.hasOwn(LEVEL_SEVERITY, value);
+}
+
+/**
+ * Logger that never writes to stdout
+ *
+ * Messages are sent to connected MCP clients as `notifications/message`, honouring the level
+ * each client set with `logging/setLevel`, or the configured level until it sets one. Messages
+ * logged while handling a request (see `runInSession`) only go to that request's client, other
+ * messages go to every client. When no client is connected (or sending fails) they fall back to
+ * stderr. If a log file is configured, every message at or above the configured level is also
+ * appended to it.
+ */
+class Logger {
+  private servers: Map<Server, LoggingLevel | undefined> = new Map();
+  private session = new AsyncLocalStorage<Server>();
+  private level: LoggingLevel = "info";
+  private file: string | undefined;
+
+  configure(options: LoggerOptions): void {
+    if (options.level) this.level = options.level;
+    if (options.file !== undefined) this.file = options.file || undefined;
+  }
+
+  /**
+   * Send log messages to a server's client and handle its `logging/setLevel` requests
+   * The server must declare the `logging` capability.
+   */
+  attach(server: Server): void {
+    this.servers.set(server, undefined);
+
+    server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+      this.servers.set(server, request.params.level);
+      return {};
+    });
+
+    const previousOnClose = server.onclose;
+    server.onclose = () => {
+      this.servers.delete(server);
+      previousOnClose?.();
+    };
+  }
+
+  detach(server: Server): void {
+    this.servers.delete(server);
+  }
+
+  /**
+   * Run a request handler so that what it logs, including from work it starts, is only sent
+   * to the client of the server handling the request
+   */
+  runInSession<T>(server: Server, handler: () => T): T {
+    return this.session.run(server, handler);
+  }
+
+  debug(message: string, data?: Record<string, unknown>): void {
+    this.log("debug", message, data);
+  }
+
+  info(message: string, data?: Record<string, unknown>): void {
+    this.log("info", message, data);
+  }
+
+  notice(message: string, data?: Record<string, unknown>): void {
+    this.log("notice", message, data);
+  }
+
+  warning(message: string, data?: Record<string, unknown>): void {
+    this.log("warning", message, data);
+  }
+
+  error(message: string, data?: Record<string, unknown>): void {
+    this.log("error", message, data);
+  }
+
+  log(level: LoggingLevel, message: string, data?: Record<string, unknown>): void {
+    let delivered = false;
+    const session = this.session.getStore();
+
+    for (const [server, clientLevel] of this.servers) {
+      if (session && server !== session) continue;
+      // Only clients that completed initialization can receive notifications
+      if (!server.transport || !server.getClientCapabilities()) continue;
+      delivered = true;
+      if (LEVEL_SEVERITY[level] < LEVEL_SEVERITY[clientLevel ?? this.level]) continue;
+
+      server
+        .sendLoggingMessage({ level, logger: LOGGER_NAME, data: { message, ...data } })
+        .catch(() => this.writeLine(process.stderr, level, message, data));
+    }
+
+    if (LEVEL_SEVERITY[level] < LEVEL_SEVERITY[this.level]) return;
+
+    if (!delivered) {
+      this.writeLine(process.stderr, level, message, data);
+    }
+    if (this.file) {
+      try {
+        appendFileSync(this.file, this.formatLine(level, message, data));
+      } catch {
+        // Never let a broken log file break a tool call
+      }
+    }
+  }
+
+  /**
+   * Redirect console.log/info/debug/warn to the logger so stray output can't reach stdout
+   */
+  captureConsole(): void {
+    console.log = (...args: unknown[]) => this.info(format(...args));
+    console.info = (...args: unknown[]) => this.info(format(...args));
+    console.debug = (...args: unknown[]) => this.debug(format(...args));
+    console.warn = (...args: unknown[]) => this.warning(format(...args));
+  }
+
+  private writeLine(
+    stream: NodeJS.WriteStream,
+    level: LoggingLevel,
+    message: string,
+    data?: Record<string, unknown>,
+  ): void {
+    stream.write(this.formatLine(level, message, data));
+  }
+
+  private formatLine(level: LoggingLevel, message: string, data?: Record<string, unknown>): string {
+    const suffix = data && Object.keys(data).length > 0 ? ` ${JSON.stringify(data)}` : "";
+    return `[${new Date().toISOString()}] [${level}] ${message}${suffix}\n`;
+  }
+}
+
+/**
+ * Shared logger instance used by the server, tools and utilities
+ */
+export const logger = new Logger();
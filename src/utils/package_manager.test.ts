@@ -2,15 +2,30 @@ import * as fs from "fs";
 import * as path from "path";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 
-import { detectPackageManager, type PackageManagerInfo } from "./package_manager";
+import { logger } from "./logger";
+import {
+  detectPackageManager,
+  findWorkspace,
+  getCommandDir,
+  getDlxCommand,
+  getRunCommand,
+  type PackageManagerInfo,
+} from "./package_manager";
 
 // Mock the fs and path modules
 vi.mock("fs", () => ({
   existsSync: vi.fn(),
+  readFileSync: vi.fn(),
+  statSync: vi.fn(),
+}));
+
+vi.mock("./logger", () => ({
+  logger: { debug: vi.fn(), warning: vi.fn() },
 }));
 
 vi.mock("path", () => ({
-  resolve: vi.fn((dir: string, file: string) => `${dir}/${file}`),
+  resolve: vi.fn((...parts: string[]) => parts.join("/")),
+  dirname: vi.fn((dir: string) => dir.slice(0, dir.lastIndexOf("/")) || "/"),
 }));
 
 describe("detectPackageManager", () => {
@@ -19,13 +34,23 @@ describe("detectPackageManager", () => {
   // Reset mocks before each test
   beforeEach(() => {
     vi.resetAllMocks();
-    vi.stubGlobal("process", { cwd: () => mockCwd });
+    vi.stubGlobal("process", { cwd: () => mockCwd, env: {} });
   });
 
   afterEach(() => {
     vi.unstubAllGlobals();
   });
 
+  /**
+   * Serve a package.json with the given packageManager field
+   */
+  function mockPackageJson(packageManager: string) {
+    vi.mocked(fs.readFileSync).mockImplementation((filePath) => {
+      if (filePath === `${mockCwd}/package.json`) return JSON.stringify({ packageManager });
+      throw new Error("ENOENT");
+    });
+  }
+
   it("should detect pnpm when pnpm-lock.yaml exists", () => {
     // Mock the existence of pnpm-lock.yaml
     vi.mocked(fs.existsSync).mockImplementation((filePath) => {
@@ -40,6 +65,8 @@ describe("detectPackageManager", () => {
     expect(result.addCmd).toBe("pnpm add");
     expect(result.removeCmd).toBe("pnpm remove");
     expect(result.runCmd).toBe("pnpm");
+    expect(result.signal).toBe("lockfile");
+    expect(result.confidence).toBe("high");
   });
 
   it("should detect yarn when yarn.lock exists", () => {
@@ -77,6 +104,40 @@ describe("detectPackageManager", () => {
     expect(result.runCmd).toBe("npm run");
   });
 
+  it("should detect bun from either lock file format", () => {
+    for (const lockFile of ["bun.lock", "bun.lockb"]) {
+      vi.mocked(fs.existsSync).mockImplementation((filePath) => {
+        return filePath === `${mockCwd}/${lockFile}`;
+      });
+
+      const result = detectPackageManager();
+
+      expect(result.name).toBe("bun");
+      expect(result.addCmd).toBe("bun add");
+      expect(result.runCmd).toBe("bun run");
+    }
+  });
+
+  it("should detect deno when deno.lock exists", () => {
+    vi.mocked(fs.existsSync).mockImplementation((filePath) => {
+      return filePath === `${mockCwd}/deno.lock`;
+    });
+
+    const result = detectPackageManager();
+
+    expect(result.name).toBe("deno");
+    expect(result.installCmd).toBe("deno install");
+    expect(result.runCmd).toBe("deno task");
+  });
+
+  it("should prefer bun over a leftover package-lock.json", () => {
+    vi.mocked(fs.existsSync).mockImplementation((filePath) => {
+      return filePath === `${mockCwd}/bun.lockb` || filePath === `${mockCwd}/package-lock.json`;
+    });
+
+    expect(detectPackageManager().name).toBe("bun");
+  });
+
   it("should respect priority order when multiple lock files exist", () => {
     // Mock the existence of multiple lock files
     vi.mocked(fs.existsSync).mockImplementation((filePath) => {
@@ -89,11 +150,49 @@ describe("detectPackageManager", () => {
 
     const result = detectPackageManager();
 
-    // Should only check for pnpm-lock.yaml since we break after finding it
-    expect(fs.existsSync).toHaveBeenCalledWith(`${mockCwd}/pnpm-lock.yaml`);
-    expect(fs.existsSync).not.toHaveBeenCalledWith(`${mockCwd}/yarn.lock`);
-    expect(fs.existsSync).not.toHaveBeenCalledWith(`${mockCwd}/package-lock.json`);
+    // Without modification times, priority order decides
     expect(result.name).toBe("pnpm");
+    expect(result.confidence).toBe("medium");
+    expect(result.lockFileConflict).toMatchObject({
+      lockFiles: [
+        { packageManager: "pnpm", path: `${mockCwd}/pnpm-lock.yaml` },
+        { packageManager: "yarn", path: `${mockCwd}/yarn.lock` },
+        { packageManager: "npm", path: `${mockCwd}/package-lock.json` },
+      ],
+      recommended: "pnpm",
+      reason: "pnpm comes first in the lock file priority order",
+    });
+  });
+
+  it("should recommend the most recently modified lock file", () => {
+    const modified: Record<string, string> = {
+      [`${mockCwd}/pnpm-lock.yaml`]: "2025-01-01T00:00:00.000Z",
+      [`${mockCwd}/package-lock.json`]: "2026-06-01T00:00:00.000Z",
+    };
+    vi.mocked(fs.existsSync).mockImplementation((filePath) => String(filePath) in modified);
+    vi.mocked(fs.statSync).mockImplementation(
+      (filePath) => ({ mtime: new Date(modified[String(filePath)]) }) as fs.Stats,
+    );
+
+    const result = detectPackageManager();
+
+    expect(result.name).toBe("npm");
+    expect(result.lockFileConflict?.reason).toBe(
+      `${mockCwd}/package-lock.json is the most recently modified lock file`,
+    );
+    expect(result.lockFileConflict?.message).toContain(`Delete ${mockCwd}/pnpm-lock.yaml`);
+    expect(logger.warning).toHaveBeenCalledWith(result.lockFileConflict?.message);
+  });
+
+  it("should not report both bun lock files as a conflict", () => {
+    vi.mocked(fs.existsSync).mockImplementation((filePath) => {
+      return filePath === `${mockCwd}/bun.lock` || filePath === `${mockCwd}/bun.lockb`;
+    });
+
+    const result = detectPackageManager();
+
+    expect(result.name).toBe("bun");
+    expect(result.lockFileConflict).toBeUndefined();
   });
 
   it("should fall back to default manager when no lock files exist", () => {
@@ -106,6 +205,8 @@ describe("detectPackageManager", () => {
     expect(fs.existsSync).toHaveBeenCalledWith(`${mockCwd}/yarn.lock`);
     expect(fs.existsSync).toHaveBeenCalledWith(`${mockCwd}/package-lock.json`);
     expect(result.name).toBe("npm"); // Default is npm
+    expect(result.signal).toBe("default");
+    expect(result.confidence).toBe("low");
   });
 
   it("should use the provided default manager if specified", () => {
@@ -128,4 +229,239 @@ describe("detectPackageManager", () => {
     expect(fs.existsSync).toHaveBeenCalledWith(`${customCwd}/yarn.lock`);
     expect(fs.existsSync).toHaveBeenCalledWith(`${customCwd}/package-lock.json`);
   });
+
+  it("should prefer the packageManager field over lock files", () => {
+    mockPackageJson(
+      "yarn@4.5.0+sha512.837566d24eec14ec0f5f1411adb544e892b3454255e61fdef8fd05f3429480102806bac7446bc9daff3896b01ae4b62d00096c7e989f1596f2af10b927532f39",
+    );
+    vi.mocked(fs.existsSync).mockReturnValue(true);
+
+    const result = detectPackageManager();
+
+    expect(result).toMatchObject({
+      name: "yarn",
+      version: "4.5.0",
+      signal: "packageManager",
+      confidence: "high",
+    });
+    expect(result.lockFileConflict).toMatchObject({
+      recommended: "yarn",
+      reason: "the packageManager field in package.json is yarn",
+    });
+  });
+
+  it("should ignore an unsupported packageManager field", () => {
+    mockPackageJson("cargo@1.80.0");
+    vi.mocked(fs.existsSync).mockImplementation((filePath) => {
+      return filePath === `${mockCwd}/pnpm-lock.yaml`;
+    });
+
+    expect(detectPackageManager()).toMatchObject({ name: "pnpm", signal: "lockfile" });
+  });
+
+  it("should fall back to the user agent when no lock files exist", () => {
+    vi.mocked(fs.existsSync).mockReturnValue(false);
+
+    const result = detectPackageManager({
+      env: { npm_config_user_agent: "bun/1.2.4 npm/? node/v22.6.0 linux x64" },
+    });
+
+    expect(result).toMatchObject({
+      name: "bun",
+      version: "1.2.4",
+      signal: "userAgent",
+      confidence: "medium",
+    });
+  });
+
+  it("should prefer a configured default over the user agent", () => {
+    vi.mocked(fs.existsSync).mockReturnValue(false);
+
+    // npx sets the user agent to npm
+    const result = detectPackageManager({
+      defaultManager: "pnpm",
+      env: { npm_config_user_agent: "npm/10.8.2 node/v22.6.0 linux x64 workspaces/false" },
+    });
+
+    expect(result).toMatchObject({ name: "pnpm", signal: "default", confidence: "low" });
+  });
+
+  describe("yarn release", () => {
+    /**
+     * Mock files in the project directory, mapping names to contents
+     */
+    function mockFiles(files: Record<string, string>) {
+      const paths = Object.fromEntries(
+        Object.entries(files).map(([file, content]) => [`${mockCwd}/${file}`, content]),
+      );
+      vi.mocked(fs.existsSync).mockImplementation((filePath) => String(filePath) in paths);
+      vi.mocked(fs.readFileSync).mockImplementation((filePath) => {
+        if (String(filePath) in paths) return paths[String(filePath)];
+        throw new Error("ENOENT");
+      });
+    }
+
+    it("should detect Yarn Classic from the lock file header", () => {
+      mockFiles({ "yarn.lock": "# THIS IS AN AUTOGENERATED FILE.\n# yarn lockfile v1\n" });
+
+      expect(detectPackageManager().yarnRelease).toBe("classic");
+    });
+
+    it("should detect Yarn Berry from the lock file metadata", () => {
+      mockFiles({ "yarn.lock": "__metadata:\n  version: 8\n" });
+
+      expect(detectPackageManager().yarnRelease).toBe("berry");
+    });
+
+    it("should read the exact version from yarnPath in .yarnrc.yml", () => {
+      mockFiles({
+        "yarn.lock": "",
+        ".yarnrc.yml": "nodeLinker: node-modules\nyarnPath: .yarn/releases/yarn-4.5.0.cjs\n",
+      });
+
+      expect(detectPackageManager()).toMatchObject({ yarnRelease: "berry", version: "4.5.0" });
+    });
+
+    it("should use the version from packageManager or the user agent", () => {
+      mockPackageJson("yarn@1.22.22");
+      expect(detectPackageManager().yarnRelease).toBe("classic");
+
+      vi.mocked(fs.readFileSync).mockReset();
+      vi.mocked(fs.existsSync).mockReturnValue(false);
+      const result = detectPackageManager({
+        env: { npm_config_user_agent: "yarn/4.5.0 npm/? node/v22.6.0 linux x64" },
+      });
+      expect(result.yarnRelease).toBe("berry");
+    });
+  });
+
+  it("should prefer lock files over the user agent", () => {
+    vi.mocked(fs.existsSync).mockImplementation((filePath) => {
+      return filePath === `${mockCwd}/yarn.lock`;
+    });
+
+    const result = detectPackageManager({
+      env: { npm_config_user_agent: "npm/10.8.2 node/v22.6.0 linux x64 workspaces/false" },
+    });
+
+    expect(result).toMatchObject({ name: "yarn", signal: "lockfile" });
+    expect(result.version).toBeUndefined();
+  });
+});
+
+describe("workspaces", () => {
+  const root = "/repo";
+  const app = "/repo/apps/marketing";
+
+  /**
+   * Mock a file tree, mapping paths to file contents
+   */
+  function mockFiles(files: Record<string, string>) {
+    vi.mocked(fs.existsSync).mockImplementation((filePath) => String(filePath) in files);
+    vi.mocked(fs.readFileSync).mockImplementation((filePath) => {
+      if (String(filePath) in files) return files[String(filePath)];
+      throw new Error("ENOENT");
+    });
+  }
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it("should find the lock file at a pnpm workspace root", () => {
+    mockFiles({
+      [`${root}/pnpm-workspace.yaml`]: "packages:\n  - apps/*\n",
+      [`${root}/pnpm-lock.yaml`]: "",
+      [`${app}/package.json`]: JSON.stringify({ name: "marketing" }),
+    });
+
+    const result = detectPackageManager({ cwd: app, env: {} });
+
+    expect(result).toMatchObject({ name: "pnpm", signal: "lockfile" });
+    expect(result.workspace).toEqual({
+      root,
+      marker: "pnpm-workspace",
+      packageDir: app,
+      packageName: "marketing",
+    });
+  });
+
+  it("should find the packageManager field of a workspaces root", () => {
+    mockFiles({
+      [`${root}/package.json`]: JSON.stringify({
+        workspaces: ["apps/*"],
+        packageManager: "yarn@4.5.0",
+      }),
+    });
+
+    const result = detectPackageManager({ cwd: app, env: {} });
+
+    expect(result).toMatchObject({ name: "yarn", version: "4.5.0", signal: "packageManager" });
+    expect(result.workspace?.marker).toBe("workspaces");
+  });
+
+  it("should stop at the repository root", () => {
+    mockFiles({ [`${root}/.git`]: "", "/package-lock.json": "" });
+
+    const result = detectPackageManager({ cwd: app, env: {} });
+
+    expect(result.signal).toBe("default");
+    expect(result.workspace).toMatchObject({ root, marker: "git" });
+    expect(fs.existsSync).not.toHaveBeenCalledWith("/package-lock.json");
+  });
+
+  it("should not report a workspace for a project at its root", () => {
+    mockFiles({ [`${root}/pnpm-workspace.yaml`]: "" });
+
+    expect(findWorkspace(root)).toBeUndefined();
+  });
+
+  it("should target pnpm workspace packages with a filter", () => {
+    const workspace = {
+      root,
+      marker: "pnpm-workspace" as const,
+      packageDir: app,
+      packageName: "marketing",
+    };
+
+    expect(getDlxCommand("pnpm", "starwind@latest", { workspace })).toBe(
+      "pnpm --filter marketing dlx starwind@latest",
+    );
+    expect(getCommandDir("pnpm", workspace)).toBe(root);
+    expect(getDlxCommand("npm", "starwind@latest", { workspace })).toBe("npx starwind@latest");
+    expect(getCommandDir("npm", workspace)).toBe(app);
+    expect(getCommandDir("pnpm", undefined)).toBeUndefined();
+  });
+});
+
+describe("getDlxCommand", () => {
+  it("should run packages with each package manager's dlx equivalent", () => {
+    expect(getDlxCommand("npm", "starwind@latest")).toBe("npx starwind@latest");
+    expect(getDlxCommand("pnpm", "starwind@latest")).toBe("pnpm dlx starwind@latest");
+    expect(getDlxCommand("yarn", "starwind@latest")).toBe("yarn dlx starwind@latest");
+    expect(getDlxCommand("bun", "starwind@latest")).toBe("bunx starwind@latest");
+    expect(getDlxCommand("deno", "starwind@latest")).toBe("deno run -A npm:starwind@latest");
+  });
+
+  it("should fall back to npx for Yarn Classic, which has no dlx", () => {
+    expect(getDlxCommand("yarn", "starwind@latest", { yarnRelease: "classic" })).toBe(
+      "npx starwind@latest",
+    );
+    expect(getDlxCommand("yarn", "starwind@latest", { yarnRelease: "berry" })).toBe(
+      "yarn dlx starwind@latest",
+    );
+  });
+});
+
+describe("getRunCommand", () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.mocked(fs.existsSync).mockReturnValue(false);
+  });
+
+  it("should run scripts with the package manager's run command", () => {
+    expect(getRunCommand("build", { defaultManager: "bun" })).toBe("bun run build");
+    expect(getRunCommand("build", { defaultManager: "deno" })).toBe("deno task build");
+    expect(getRunCommand("build", { defaultManager: "pnpm" })).toBe("pnpm build");
+  });
 });
@@ -1,27 +1,143 @@
-import { existsSync } from "fs";
-import { resolve } from "path";
+import { existsSync, readFileSync, statSync } from "fs";
+import { dirname, resolve } from "path";
+
+import { logger } from "./logger.js";
+
+/**
+ * Supported package managers, as accepted by the `packageManager` options and settings
+ */
+export const PACKAGE_MANAGERS = ["npm", "pnpm", "yarn", "bun", "deno"] as const;
 
 /**
  * Represents a supported package manager
  */
-export type PackageManager = "npm" | "yarn" | "pnpm";
+export type PackageManager = (typeof PACKAGE_MANAGERS)[number];
 
 /**
  * Configuration options for package manager detection
  */
 export interface PackageManagerOptions {
-  /** Root directory to check for lock files (defaults to process.cwd()) */
+  /** Project directory to detect from (defaults to process.cwd()), lock files are also looked for up to its workspace root */
   cwd?: string;
-  /** Default package manager to use if detection fails (defaults to 'npm') */
+  /** Package manager to use if the project declares none, ahead of npm_config_user_agent */
   defaultManager?: PackageManager;
+  /** Environment to read npm_config_user_agent from (defaults to process.env) */
+  env?: Record<string, string | undefined>;
 }
 
+/**
+ * What decided the detected package manager, strongest first
+ * - `packageManager`: the Corepack `packageManager` field in package.json
+ * - `lockfile`: a lock file in the project directory
+ * - `default`: the project declares nothing and a default was configured, or nothing was found
+ *   at all and npm was used
+ * - `userAgent`: the package manager that launched the server (npm_config_user_agent), only
+ *   used when no default is configured
+ */
+export type PackageManagerSignal = "packageManager" | "lockfile" | "userAgent" | "default";
+
+/**
+ * How likely the detected package manager is the one the project uses
+ */
+export type DetectionConfidence = "high" | "medium" | "low";
+
+/**
+ * What marks the root of a workspace
+ * - `pnpm-workspace`: a pnpm-workspace.yaml file
+ * - `workspaces`: a package.json with a `workspaces` field (npm, Yarn, Bun)
+ * - `git`: the repository root, for projects in a subdirectory of a repo without workspaces
+ */
+export type WorkspaceMarker = "pnpm-workspace" | "workspaces" | "git";
+
+/**
+ * A project inside a workspace or repository whose root is above it
+ */
+export interface WorkspaceInfo {
+  /** Directory of the workspace root */
+  root: string;
+  /** What marks the root */
+  marker: WorkspaceMarker;
+  /** The project directory */
+  packageDir: string;
+  /** Name from the project's package.json, used for filters */
+  packageName?: string;
+}
+
+/**
+ * Yarn release line, they take different commands
+ * - `classic`: Yarn 1.x, which has no `yarn dlx`
+ * - `berry`: Yarn 2 and later
+ */
+export type YarnRelease = "classic" | "berry";
+
+/**
+ * A lock file found during detection
+ */
+export interface LockFile {
+  packageManager: PackageManager;
+  path: string;
+  /** Last modification time as an ISO string, when it could be read */
+  modifiedAt?: string;
+}
+
+/**
+ * Lock files of more than one package manager in the same project
+ */
+export interface LockFileConflict {
+  /** The lock files found, in priority order */
+  lockFiles: LockFile[];
+  /** Package manager whose lock file to keep, also the detected one */
+  recommended: PackageManager;
+  /** Evidence for the recommendation */
+  reason: string;
+  /** Human-readable description of the conflict and how to resolve it */
+  message: string;
+}
+
+/**
+ * Output schema of a LockFileConflict, for tools that return one
+ */
+export const LOCK_FILE_CONFLICT_SCHEMA = {
+  type: "object",
+  description: "Set when lock files of several package managers were found",
+  properties: {
+    lockFiles: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          packageManager: { type: "string", enum: PACKAGE_MANAGERS },
+          path: { type: "string" },
+          modifiedAt: { type: "string" },
+        },
+        required: ["packageManager", "path"],
+      },
+    },
+    recommended: { type: "string", enum: PACKAGE_MANAGERS },
+    reason: { type: "string" },
+    message: { type: "string" },
+  },
+  required: ["lockFiles", "recommended", "reason", "message"],
+} as const;
+
 /**
  * Contains information about the detected package manager
  */
 export interface PackageManagerInfo {
   /** The name of the detected package manager */
   name: PackageManager;
+  /** Version from the packageManager field or user agent, when known */
+  version?: string;
+  /** What decided the result */
+  signal: PackageManagerSignal;
+  /** How much to trust the result */
+  confidence: DetectionConfidence;
+  /** Yarn release line, set for yarn when it could be determined */
+  yarnRelease?: YarnRelease;
+  /** Set when the project is below its workspace root */
+  workspace?: WorkspaceInfo;
+  /** Set when lock files of several package managers were found */
+  lockFileConflict?: LockFileConflict;
   /** The command to use for installing packages */
   installCmd: string;
   /** The command to use for adding a package */
@@ -34,17 +150,23 @@ export interface PackageManagerInfo {
 
 /**
  * Map of package managers to their lock files
+ * Bun 1.2 replaced the binary bun.lockb with the text bun.lock, projects may have either.
  */
-const LOCK_FILES: Record<PackageManager, string> = {
-  npm: "package-lock.json",
-  yarn: "yarn.lock",
-  pnpm: "pnpm-lock.yaml",
+const LOCK_FILES: Record<PackageManager, string[]> = {
+  npm: ["package-lock.json"],
+  yarn: ["yarn.lock"],
+  pnpm: ["pnpm-lock.yaml"],
+  bun: ["bun.lock", "bun.lockb"],
+  deno: ["deno.lock"],
 };
 
 /**
  * Map of package managers to their command information
  */
-const PACKAGE_MANAGER_COMMANDS: Record<PackageManager, Omit<PackageManagerInfo, "name">> = {
+const PACKAGE_MANAGER_COMMANDS: Record<
+  PackageManager,
+  Pick<PackageManagerInfo, "installCmd" | "addCmd" | "removeCmd" | "runCmd">
+> = {
   npm: {
     installCmd: "npm install",
     addCmd: "npm install",
@@ -63,13 +185,255 @@ const PACKAGE_MANAGER_COMMANDS: Record<PackageManager, Omit<PackageManagerInfo,
     removeCmd: "pnpm remove",
     runCmd: "pnpm",
   },
+  bun: {
+    installCmd: "bun install",
+    addCmd: "bun add",
+    removeCmd: "bun remove",
+    runCmd: "bun run",
+  },
+  // npm packages are added with an npm: specifier, e.g. deno add npm:astro
+  deno: {
+    installCmd: "deno install",
+    addCmd: "deno add",
+    removeCmd: "deno remove",
+    runCmd: "deno task",
+  },
 };
 
+/**
+ * Map of package managers to the prefix that runs a package without installing it
+ * Deno runs npm packages through an npm: specifier, so its prefix has no trailing space.
+ */
+const DLX_PREFIXES: Record<PackageManager, string> = {
+  npm: "npx ",
+  yarn: "yarn dlx ",
+  pnpm: "pnpm dlx ",
+  bun: "bunx ",
+  deno: "deno run -A npm:",
+};
+
+function isPackageManager(name: string): name is PackageManager {
+  return (PACKAGE_MANAGERS as readonly string[]).includes(name);
+}
+
+/**
+ * Split a `name@version` (Corepack) or `name/version` (user agent) spec
+ * Corepack specs may carry a hash after the version, e.g. pnpm@9.1.0+sha512.abc
+ */
+function parseSpec(
+  spec: string,
+  separator: "@" | "/",
+): { name: PackageManager; version?: string } | undefined {
+  const [name, version] = spec.trim().split(separator);
+  if (!isPackageManager(name)) return undefined;
+  return { name, version: version?.split("+")[0] || undefined };
+}
+
+/**
+ * Read a text file, or undefined if it can't be read
+ */
+function readText(path: string): string | undefined {
+  try {
+    return readFileSync(path, "utf8");
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Read the package.json in a directory, or undefined if there is none or it isn't valid JSON
+ */
+function readPackageJson(dir: string): Record<string, unknown> | undefined {
+  try {
+    const packageJson = JSON.parse(readText(resolve(dir, "package.json")) ?? "");
+    return packageJson && typeof packageJson === "object" ? packageJson : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Read the Corepack `packageManager` field from a directory's package.json
+ */
+function fromPackageJson(dir: string): { name: PackageManager; version?: string } | undefined {
+  const field = readPackageJson(dir)?.packageManager;
+  if (typeof field !== "string") return undefined;
+
+  const spec = parseSpec(field, "@");
+  if (!spec) logger.debug(`Ignoring unsupported packageManager field "${field}" in package.json`);
+  return spec;
+}
+
+/**
+ * Last modification time of a file, or undefined if it can't be read
+ */
+function modifiedAt(path: string): string | undefined {
+  try {
+    return statSync(path).mtime.toISOString();
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Find all lock files in a directory, in priority order
+ */
+function findLockFiles(dir: string): LockFile[] {
+  // Determine priorities for checking lock files
+  // npm comes last, a stray package-lock.json is common in projects that moved to another manager
+  const packageManagers: PackageManager[] = ["pnpm", "yarn", "bun", "deno", "npm"];
+
+  return packageManagers.flatMap((pm) =>
+    LOCK_FILES[pm].flatMap((lockFile) => {
+      const lockFilePath = resolve(dir, lockFile);
+      logger.debug(`Checking for ${lockFile} at ${lockFilePath}`);
+      if (!existsSync(lockFilePath)) return [];
+      return [{ packageManager: pm, path: lockFilePath, modifiedAt: modifiedAt(lockFilePath) }];
+    }),
+  );
+}
+
+/**
+ * Recommend which lock file to keep when several package managers have one
+ * The packageManager field decides, otherwise the most recently modified lock file, and lock
+ * file priority breaks ties.
+ */
+function findConflict(
+  lockFiles: LockFile[],
+  field: { name: PackageManager; version?: string } | undefined,
+): LockFileConflict | undefined {
+  if (new Set(lockFiles.map((lockFile) => lockFile.packageManager)).size < 2) return undefined;
+
+  let recommended: PackageManager;
+  let reason: string;
+  if (field) {
+    recommended = field.name;
+    reason = `the packageManager field in package.json is ${field.name}`;
+  } else {
+    const newest = lockFiles.reduce((newest, lockFile) =>
+      (lockFile.modifiedAt ?? "") > (newest.modifiedAt ?? "") ? lockFile : newest,
+    );
+    recommended = newest.packageManager;
+    reason = newest.modifiedAt
+      ? `${newest.path} is the most recently modified lock file`
+      : `${newest.packageManager} comes first in the lock file priority order`;
+  }
+
+  const others = lockFiles.filter((lockFile) => lockFile.packageManager !== recommended);
+  return {
+    lockFiles,
+    recommended,
+    reason,
+    message: `Found lock files of several package managers (${lockFiles.map((lockFile) => lockFile.path).join(", ")}). Using ${recommended} because ${reason}. Delete ${others.map((lockFile) => lockFile.path).join(", ")} if ${recommended} is right, or pass packageManager to use another one.`,
+  };
+}
+
+/**
+ * Release line of a yarn version, e.g. "1.22.22" is classic
+ */
+function yarnReleaseOf(version: string): YarnRelease {
+  return Number(version.split(".")[0]) >= 2 ? "berry" : "classic";
+}
+
+/**
+ * Determine the yarn release line from the version in packageManager or the user agent, or
+ * else from the closest .yarnrc.yml (Berry only, its yarnPath names the exact version) or
+ * yarn.lock header (`# yarn lockfile v1` in Classic)
+ */
+function findYarnRelease(
+  dirs: string[],
+  version: string | undefined,
+): { yarnRelease: YarnRelease; version?: string } | undefined {
+  if (version) return { yarnRelease: yarnReleaseOf(version), version };
+
+  for (const dir of dirs) {
+    const yarnrc = readText(resolve(dir, ".yarnrc.yml"));
+    if (yarnrc !== undefined) {
+      // e.g. yarnPath: .yarn/releases/yarn-4.5.0.cjs
+      const pathVersion = /^yarnPath:.*yarn-(\d+\.\d+\.\d+)[^/]*\.c?js/m.exec(yarnrc)?.[1];
+      return pathVersion
+        ? { yarnRelease: yarnReleaseOf(pathVersion), version: pathVersion }
+        : { yarnRelease: "berry" };
+    }
+    const lockFile = readText(resolve(dir, "yarn.lock"));
+    if (lockFile !== undefined) {
+      return { yarnRelease: lockFile.includes("# yarn lockfile v1") ? "classic" : "berry" };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Walk up from a directory to the closest workspace root, including the directory itself
+ */
+function findWorkspaceRoot(cwd: string): { root: string; marker: WorkspaceMarker } | undefined {
+  for (let dir = cwd; ; dir = dirname(dir)) {
+    if (existsSync(resolve(dir, "pnpm-workspace.yaml"))) {
+      return { root: dir, marker: "pnpm-workspace" };
+    }
+    if (readPackageJson(dir)?.workspaces !== undefined) return { root: dir, marker: "workspaces" };
+    if (existsSync(resolve(dir, ".git"))) return { root: dir, marker: "git" };
+    if (dirname(dir) === dir) return undefined;
+  }
+}
+
+/**
+ * Find the workspace a project belongs to
+ *
+ * @param cwd - The project directory (defaults to process.cwd())
+ * @returns The workspace, or undefined if the project is at its root or not in a workspace
+ */
+export function findWorkspace(cwd: string = process.cwd()): WorkspaceInfo | undefined {
+  const packageDir = resolve(cwd);
+  const found = findWorkspaceRoot(packageDir);
+  if (!found || found.root === packageDir) return undefined;
+
+  const name = readPackageJson(packageDir)?.name;
+  return { ...found, packageDir, packageName: typeof name === "string" ? name : undefined };
+}
+
+/**
+ * Directories to detect from, the project directory first and its workspace root last
+ */
+function detectionDirs(cwd: string, workspace: WorkspaceInfo | undefined): string[] {
+  const dirs = [cwd];
+  if (!workspace) return dirs;
+  for (let dir = cwd; dir !== workspace.root; ) {
+    dir = dirname(dir);
+    dirs.push(dir);
+  }
+  return dirs;
+}
+
+/**
+ * Find the Yarn release line of a project, for when yarn was chosen rather than detected
+ * Uses the version in the closest `packageManager` field naming yarn, else the closest
+ * .yarnrc.yml or yarn.lock, up to the workspace root.
+ *
+ * @param cwd - The project directory (defaults to process.cwd())
+ * @returns The release line, or undefined if none of them is found
+ */
+export function detectYarnRelease(cwd: string = process.cwd()): YarnRelease | undefined {
+  const dir = resolve(cwd);
+  const dirs = detectionDirs(dir, findWorkspace(dir));
+  const field = dirs.map(fromPackageJson).find((spec) => spec !== undefined);
+  const version = field?.name === "yarn" ? field.version : undefined;
+  return findYarnRelease(dirs, version)?.yarnRelease;
+}
+
 /**
  * Detects the package manager used in the project
  *
+ * The Corepack `packageManager` field in package.json wins, since Corepack enforces it, followed
+ * by lock files, then the configured default manager. Without a default, the package manager
+ * that launched the server (e.g. `pnpm dlx`) is used, else npm. In a workspace, package.json and
+ * lock files are looked for in each directory from the project up to the workspace root, where
+ * they usually are.
+ * When lock files of several package managers are found, the conflict is reported with a
+ * recommendation of which to keep.
+ *
  * @param options - Configuration options for detection
- * @returns Information about the detected package manager
+ * @returns Information about the detected package manager, including what decided it
  *
  * @example
  * ```ts
@@ -85,34 +449,51 @@ const PACKAGE_MANAGER_COMMANDS: Record<PackageManager, Omit<PackageManagerInfo,
  * ```
  */
 export function detectPackageManager(options: PackageManagerOptions = {}): PackageManagerInfo {
-  const { cwd = process.cwd(), defaultManager = "npm" } = options;
-
-  // Determine priorities for checking lock files
-  const packageManagers: PackageManager[] = ["pnpm", "yarn", "npm"];
-
-  // Detected package managers
-  const detected: PackageManager[] = [];
-
-  // Check for each lock file
-  for (const pm of packageManagers) {
-    const lockFile = LOCK_FILES[pm];
-    const lockFilePath = resolve(cwd, lockFile);
+  const { defaultManager, env = process.env } = options;
+  const cwd = resolve(options.cwd ?? process.cwd());
 
-    console.log(`Checking for ${lockFile} at ${lockFilePath}`);
-
-    if (existsSync(lockFilePath)) {
-      detected.push(pm);
-      // Found a lock file, no need to check others
-      break;
-    }
+  let detected: Pick<
+    PackageManagerInfo,
+    "name" | "version" | "signal" | "confidence" | "yarnRelease"
+  >;
+  const workspace = findWorkspace(cwd);
+  const dirs = detectionDirs(cwd, workspace);
+  // Keep looking for lock files after finding the packageManager field, to report conflicts
+  let field: ReturnType<typeof fromPackageJson>;
+  let lockFiles: LockFile[] = [];
+  for (const dir of dirs) {
+    field ??= fromPackageJson(dir);
+    if (lockFiles.length === 0) lockFiles = findLockFiles(dir);
+    if (field && lockFiles.length > 0) break;
   }
+  const lockFileConflict = findConflict(lockFiles, field);
+  if (lockFileConflict) logger.warning(lockFileConflict.message);
+  // npx sets the user agent to npm, so it only breaks the tie when no default is configured
+  const userAgent =
+    field || lockFiles.length > 0 || defaultManager
+      ? undefined
+      : parseSpec(env.npm_config_user_agent?.split(" ")[0] ?? "", "/");
 
-  // Return the first detected package manager or default
-  const packageManager = detected.length > 0 ? detected[0] : defaultManager;
+  if (field) {
+    detected = { ...field, signal: "packageManager", confidence: "high" };
+  } else if (lockFileConflict) {
+    detected = { name: lockFileConflict.recommended, signal: "lockfile", confidence: "medium" };
+  } else if (lockFiles.length > 0) {
+    detected = { name: lockFiles[0].packageManager, signal: "lockfile", confidence: "high" };
+  } else if (userAgent) {
+    detected = { ...userAgent, signal: "userAgent", confidence: "medium" };
+  } else {
+    detected = { name: defaultManager ?? "npm", signal: "default", confidence: "low" };
+  }
+  if (detected.name === "yarn")
+    detected = { ...detected, ...findYarnRelease(dirs, detected.version) };
+  logger.debug(`Detected package manager ${detected.name} from ${detected.signal}`);
 
   return {
-    name: packageManager,
-    ...PACKAGE_MANAGER_COMMANDS[packageManager],
+    ...detected,
+    ...PACKAGE_MANAGER_COMMANDS[detected.name],
+    workspace,
+    lockFileConflict,
   };
 }
 
@@ -163,7 +544,7 @@ export function getPackageManagerCommand(
  * ```ts
  * // Get command to run 'build' script
  * const buildCmd = getRunCommand('build');
- * // Results in 'npm run build', 'yarn build', or 'pnpm build'
+ * // Results in 'npm run build', 'yarn build', 'pnpm build', 'bun run build' or 'deno task build'
  * ```
  */
 export function getRunCommand(scriptName: string, options: PackageManagerOptions = {}): string {
@@ -176,7 +557,72 @@ export function getRunCommand(scriptName: string, options: PackageManagerOptions
       return `${pmInfo.runCmd} ${scriptName}`;
     case "pnpm":
       return `${pmInfo.runCmd} ${scriptName}`;
+    case "bun":
+      return `${pmInfo.runCmd} ${scriptName}`;
+    case "deno":
+      return `${pmInfo.runCmd} ${scriptName}`;
     default:
       return `${pmInfo.runCmd} ${scriptName}`;
   }
 }
+
+/**
+ * Whether a workspace package can be targeted from the workspace root with a filter
+ * Only pnpm workspaces are, other package managers run commands from the package directory.
+ */
+function canFilter(packageManager: PackageManager, workspace: WorkspaceInfo | undefined): boolean {
+  return (
+    packageManager === "pnpm" && workspace?.marker === "pnpm-workspace" && !!workspace.packageName
+  );
+}
+
+/**
+ * Gets the command that runs a package without installing it
+ *
+ * Yarn Classic has no `yarn dlx`, so Classic projects get `npx`. Yarn projects of unknown release
+ * get `yarn dlx`.
+ *
+ * @param packageManager - The package manager to run it with
+ * @param packageSpec - The package and version, e.g. 'starwind@latest'
+ * @param project - What detection found out about the project: its workspace, to target it with
+ * a filter where supported, and its yarn release
+ * @returns The command, to be followed by the package's arguments
+ *
+ * @example
+ * ```ts
+ * getDlxCommand('pnpm', 'starwind@latest'); // 'pnpm dlx starwind@latest'
+ * getDlxCommand('deno', 'starwind@latest'); // 'deno run -A npm:starwind@latest'
+ * getDlxCommand('pnpm', 'starwind@latest', { workspace }); // 'pnpm --filter marketing dlx starwind@latest'
+ * getDlxCommand('yarn', 'starwind@latest', { yarnRelease: 'classic' }); // 'npx starwind@latest'
+ * ```
+ */
+export function getDlxCommand(
+  packageManager: PackageManager,
+  packageSpec: string,
+  project: Pick<PackageManagerInfo, "workspace" | "yarnRelease"> = {},
+): string {
+  const { workspace, yarnRelease } = project;
+  if (canFilter(packageManager, workspace)) {
+    return `pnpm --filter ${workspace!.packageName} dlx ${packageSpec}`;
+  }
+  if (packageManager === "yarn" && yarnRelease === "classic") {
+    return `${DLX_PREFIXES.npm}${packageSpec}`;
+  }
+  return `${DLX_PREFIXES[packageManager]}${packageSpec}`;
+}
+
+/**
+ * Gets the directory the commands for a workspace project must be run in
+ *
+ * @param packageManager - The package manager the commands use
+ * @param workspace - The workspace the project is in
+ * @returns The workspace root when the commands use a filter, otherwise the project directory.
+ * Undefined outside a workspace, where commands run in the project directory.
+ */
+export function getCommandDir(
+  packageManager: PackageManager,
+  workspace: WorkspaceInfo | undefined,
+): string | undefined {
+  if (!workspace) return undefined;
+  return canFilter(packageManager, workspace) ? workspace.root : workspace.packageDir;
+}
@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+
+import { ManifestError, parseManifest } from "./pro_manifest";
+
+const MANIFEST_URL = "https://pro.starwind.dev/r/manifest.json";
+
+const HERO = {
+  id: "hero-01",
+  name: "Hero 01",
+  description: "A simple hero",
+  categories: ["hero"],
+  keywords: ["landing"],
+  plan: "free",
+  installCommand: "npx starwind@latest add @starwind-pro/hero-01",
+  previewUrl: "/blocks/hero-01",
+};
+
+function manifest(fields: Record<string, unknown>): string {
+  return JSON.stringify({
+    $schema: "https://pro.starwind.dev/schema.json",
+    name: "starwind-pro",
+    version: "1.2.0",
+    generatedAt: "2026-01-01T00:00:00.000Z",
+    baseUrl: "https://pro.starwind.dev",
+    totalBlocks: 1,
+    categories: ["hero"],
+    blocks: [HERO],
+    ...fields,
+  });
+}
+
+describe("parseManifest", () => {
+  it("should accept a well-formed manifest without warnings", () => {
+    const { manifest: parsed, warnings } = parseManifest(manifest({}), MANIFEST_URL);
+
+    expect(warnings).toEqual([]);
+    expect(parsed.blocks).toEqual([HERO]);
+    expect(parsed.version).toBe("1.2.0");
+  });
+
+  it("should default missing optional block fields", () => {
+    const { installCommand, id, name } = HERO;
+
+    const { manifest: parsed, warnings } = parseManifest(
+      manifest({
+        blocks: [{ id, name, installCommand }],
+        categories: undefined,
+        baseUrl: undefined,
+      }),
+      MANIFEST_URL,
+    );
+
+    expect(warnings).toEqual([]);
+    expect(parsed.blocks[0]).toEqual({
+      id,
+      name,
+      installCommand,
+      description: "",
+      categories: [],
+      keywords: [],
+      plan: "pro",
+      previewUrl: "",
+    });
+    expect(parsed.baseUrl).toBe("https://pro.starwind.dev");
+    expect(parsed.categories).toEqual([]);
+  });
+
+  it("should skip and report malformed and duplicate blocks", () => {
+    const { manifest: parsed, warnings } = parseManifest(
+      manifest({
+        totalBlocks: 4,
+        blocks: [
+          HERO,
+          { ...HERO, id: "footer-01", keywords: "footer" },
+          { name: "No id", installCommand: "npx starwind@latest add x" },
+          HERO,
+        ],
+      }),
+      MANIFEST_URL,
+    );
+
+    expect(parsed.blocks.map((block) => block.id)).toEqual(["hero-01"]);
+    expect(parsed.totalBlocks).toBe(1);
+    expect(warnings).toEqual([
+      "Skipped block footer-01: keywords expected array, received string",
+      "Skipped block #2: id is required",
+      "Skipped block hero-01: duplicate id",
+    ]);
+  });
+
+  it("should warn about unsupported manifest versions", () => {
+    expect(parseManifest(manifest({ version: "2.0.0" }), MANIFEST_URL).warnings[0]).toContain(
+      'Unsupported Starwind Pro manifest version "2.0.0" (expected 1.x)',
+    );
+    expect(parseManifest(manifest({ $schema: undefined }), MANIFEST_URL).warnings[0]).toContain(
+      "has no $schema",
+    );
+  });
+
+  it("should reject bodies that aren't manifests", () => {
+    expect(() => parseManifest("<html>", MANIFEST_URL)).toThrow(ManifestError);
+    expect(() => parseManifest(JSON.stringify({ blocks: {} }), MANIFEST_URL)).toThrow(
+      "Invalid manifest: blocks expected array, received object",
+    );
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * Starwind Pro Manifest Parsing
+ * Validates the block manifest served by pro.starwind.dev, so a malformed block or a newer
+ * manifest format degrades search results instead of breaking them.
+ */
+import { type JsonObjectSchema, validateSchema } from "./json_schema.js";
+
+/**
+ * Manifest block structure from pro.starwind.dev
+ */
+export interface ManifestBlock {
+  id: string;
+  name: string;
+  description: string;
+  categories: string[];
+  keywords: string[];
+  plan: "free" | "pro";
+  installCommand: string;
+  previewUrl: string;
+}
+
+/**
+ * Full manifest structure
+ */
+export interface Manifest {
+  $schema: string;
+  name: string;
+  version: string;
+  generatedAt: string;
+  baseUrl: string;
+  totalBlocks: number;
+  categories: string[];
+  blocks: ManifestBlock[];
+}
+
+/**
+ * A validated manifest and what had to be fixed up or dropped to get it
+ */
+export interface ParsedManifest {
+  manifest: Manifest;
+  /** Skipped blocks and format problems, empty for a well-formed manifest */
+  warnings: string[];
+}
+
+/**
+ * Thrown when a body isn't a manifest at all
+ */
+export class ManifestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ManifestError";
+  }
+}
+
+/**
+ * Major manifest version this server understands
+ */
+export const SUPPORTED_MANIFEST_VERSION = 1;
+
+const STRING_LIST = { type: "array", items: { type: "string" } } as const;
+
+/**
+ * Schema of a single block
+ * Only the fields a block can't be installed or listed without are required.
+ */
+const MANIFEST_BLOCK_SCHEMA = {
+  type: "object",
+  properties: {
+    id: { type: "string", minLength: 1 },
+    name: { type: "string", minLength: 1 },
+    description: { type: "string" },
+    categories: STRING_LIST,
+    keywords: STRING_LIST,
+    plan: { type: "string", enum: ["free", "pro"] },
+    installCommand: { type: "string", minLength: 1 },
+    previewUrl: { type: "string" },
+  },
+  required: ["id", "name", "installCommand"],
+} as const satisfies JsonObjectSchema;
+
+/**
+ * Schema of the manifest fields around the blocks, all optional
+ */
+const MANIFEST_SCHEMA = {
+  type: "object",
+  properties: {
+    $schema: { type: "string" },
+    name: { type: "string" },
+    version: { type: "string" },
+    generatedAt: { type: "string" },
+    baseUrl: { type: "string" },
+    categories: STRING_LIST,
+    blocks: { type: "array" },
+  },
+  required: ["blocks"],
+} as const satisfies JsonObjectSchema;
+
+/**
+ * Describe the version problem of a manifest, if any
+ */
+function checkVersion(root: Record<string, unknown>): string | undefined {
+  if (typeof root.$schema !== "string") {
+    return "Starwind Pro manifest has no $schema, it may not be in the expected format";
+  }
+  const major = typeof root.version === "string" ? Number(root.version.split(".")[0]) : NaN;
+  if (major !== SUPPORTED_MANIFEST_VERSION) {
+    return `Unsupported Starwind Pro manifest version ${JSON.stringify(root.version ?? null)} (expected ${SUPPORTED_MANIFEST_VERSION}.x), some blocks may be missing or incomplete. Updating @starwind-ui/mcp may help`;
+  }
+  return undefined;
+}
+
+/**
+ * Parse and validate a manifest body
+ * Malformed blocks and duplicate ids are skipped with a warning, missing optional fields get
+ * defaults (a block without a plan is treated as pro), and `totalBlocks` counts the blocks kept.
+ *
+ * @param body - The manifest JSON
+ * @param manifestUrl - Where the manifest came from, the default `baseUrl` for preview links
+ * @returns The manifest and any warnings
+ * @throws {ManifestError} If the body isn't JSON or has no blocks array
+ */
+export function parseManifest(body: string, manifestUrl: string): ParsedManifest {
+  let root: unknown;
+  try {
+    root = JSON.parse(body);
+  } catch (error: any) {
+    throw new ManifestError(`Invalid manifest JSON: ${error.message}`);
+  }
+
+  // Blocks are checked one by one below, so one bad block doesn't reject the whole manifest
+  const rootIssues = validateSchema(MANIFEST_SCHEMA, root);
+  const fatal = rootIssues.find((issue) => issue.path === "(root)" || issue.path === "blocks");
+  if (fatal) throw new ManifestError(`Invalid manifest: ${fatal.path} ${fatal.message}`);
+
+  const data = root as Record<string, unknown>;
+  const warnings = rootIssues.map(
+    (issue) => `Ignoring invalid manifest field ${issue.path}: ${issue.message}`,
+  );
+  const versionWarning = checkVersion(data);
+  if (versionWarning) warnings.unshift(versionWarning);
+
+  const blocks: ManifestBlock[] = [];
+  const seen = new Set<string>();
+  (data.blocks as unknown[]).forEach((value, index) => {
+    const issues = validateSchema(MANIFEST_BLOCK_SCHEMA, value);
+    const block = value as Partial<ManifestBlock>;
+    const label = typeof block?.id === "string" && block.id ? block.id : `#${index}`;
+    if (issues.length > 0) {
+      warnings.push(
+        `Skipped block ${label}: ${issues.map((issue) => `${issue.path} ${issue.message}`).join("; ")}`,
+      );
+      return;
+    }
+    if (seen.has(block.id!)) {
+      warnings.push(`Skipped block ${label}: duplicate id`);
+      return;
+    }
+    seen.add(block.id!);
+    blocks.push({
+      id: block.id!,
+      name: block.name!,
+      description: block.description ?? "",
+      categories: block.categories ?? [],
+      keywords: block.keywords ?? [],
+      plan: block.plan ?? "pro",
+      installCommand: block.installCommand!,
+      previewUrl: block.previewUrl ?? "",
+    });
+  });
+
+  const valid = (key: string) =>
+    !rootIssues.some((issue) => issue.path === key || issue.path.startsWith(`${key}.`));
+  const text = (key: string, fallback: string) =>
+    data[key] !== undefined && valid(key) ? (data[key] as string) : fallback;
+
+  return {
+    manifest: {
+      $schema: text("$schema", ""),
+      name: text("name", ""),
+      version: text("version", ""),
+      generatedAt: text("generatedAt", ""),
+      baseUrl: text("baseUrl", new URL(manifestUrl).origin),
+      totalBlocks: blocks.length,
+      categories:
+        data.categories !== undefined && valid("categories")
+          ? (data.categories as string[])
+          : [...new Set(blocks.flatMap((block) => block.categories))],
+      blocks,
+    },
+    warnings,
+  };
+}
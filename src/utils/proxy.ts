@@ -0,0 +1,149 @@
+/**
+ * Outbound Proxy and CA Configuration
+ * Routes the global fetch through HTTP(S) proxies and trusts extra CA certificates, following the
+ * standard HTTPS_PROXY / HTTP_PROXY / NO_PROXY environment variables unless the config overrides
+ * them.
+ */
+import { readFileSync } from "fs";
+import { rootCertificates } from "tls";
+import { EnvHttpProxyAgent, type ProxyAgent, setGlobalDispatcher } from "undici";
+
+import type { Config } from "../config/settings.js";
+import { logger } from "./logger.js";
+
+/**
+ * Proxies in effect for outbound requests
+ */
+export interface ProxySettings {
+  httpProxy?: string;
+  httpsProxy?: string;
+  /** Comma-separated hosts that are connected to directly */
+  noProxy?: string;
+}
+
+let activeProxy: ProxySettings = {};
+
+/**
+ * Resolve the proxies from the config, falling back to the standard environment variables
+ * `network.proxy` is used for both http and https URLs.
+ */
+export function resolveProxySettings(
+  config: Config,
+  env: Record<string, string | undefined> = process.env,
+): ProxySettings {
+  const { proxy, noProxy } = config.network;
+  const httpProxy = proxy ?? (env.http_proxy || env.HTTP_PROXY || undefined);
+  return {
+    httpProxy,
+    httpsProxy: proxy ?? (env.https_proxy || env.HTTPS_PROXY || undefined) ?? httpProxy,
+    noProxy: noProxy?.join(",") ?? (env.no_proxy || env.NO_PROXY || undefined),
+  };
+}
+
+/**
+ * Whether NO_PROXY exempts a host, with the same rules as undici: `*` matches everything, entries
+ * starting with `.` or `*` match subdomains, others must match exactly, and `host:port` entries
+ * only match that port.
+ */
+function isExempt(url: URL, noProxy: string | undefined): boolean {
+  if (!noProxy) return false;
+  if (noProxy.trim() === "*") return true;
+
+  const port = Number(url.port) || (url.protocol === "https:" ? 443 : 80);
+  for (const entry of noProxy.split(/[,\s]/)) {
+    if (!entry) continue;
+    const parsed = entry.match(/^(.+):(\d+)$/);
+    const hostname = (parsed ? parsed[1] : entry).toLowerCase();
+    if (parsed && Number(parsed[2]) !== port) continue;
+    if (/^[.*]/.test(hostname)) {
+      if (url.hostname.endsWith(hostname.replace(/^\*/, ""))) return true;
+    } else if (url.hostname === hostname) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * The proxy a URL is requested through, with any credentials removed, or undefined if it is
+ * requested directly
+ */
+export function getProxyForUrl(
+  url: string,
+  settings: ProxySettings = activeProxy,
+): string | undefined {
+  const parsed = new URL(url);
+  const proxy = parsed.protocol === "https:" ? settings.httpsProxy : settings.httpProxy;
+  if (!proxy || isExempt(parsed, settings.noProxy)) return undefined;
+
+  try {
+    const redacted = new URL(proxy);
+    redacted.username = "";
+    redacted.password = "";
+    return redacted.toString().replace(/\/$/, "");
+  } catch {
+    return proxy;
+  }
+}
+
+/**
+ * Read the configured CA bundles
+ * Passing a CA list to TLS replaces the default trust store, so the result also includes Node's
+ * root certificates and NODE_EXTRA_CA_CERTS.
+ *
+ * @throws {Error} If a CA file can't be read
+ */
+export function loadCaCertificates(
+  config: Config,
+  env: Record<string, string | undefined> = process.env,
+): string[] | undefined {
+  const files = config.network.caFiles ?? [];
+  if (files.length === 0) return undefined;
+
+  const extra = env.NODE_EXTRA_CA_CERTS ? [env.NODE_EXTRA_CA_CERTS] : [];
+  return [
+    ...rootCertificates,
+    ...[...extra, ...files].map((file) => {
+      try {
+        return readFileSync(file, "utf8");
+      } catch (error: any) {
+        throw new Error(`Failed to read CA certificate file ${file}: ${error.message}`);
+      }
+    }),
+  ];
+}
+
+/**
+ * Apply the proxy and CA configuration to every fetch made by the server
+ * Leaves the default dispatcher alone when neither is configured.
+ *
+ * @throws {Error} If a CA file can't be read
+ */
+export function configureNetwork(
+  config: Config,
+  env: Record<string, string | undefined> = process.env,
+): void {
+  const proxy = resolveProxySettings(config, env);
+  const ca = loadCaCertificates(config, env);
+  activeProxy = proxy;
+  if (!proxy.httpProxy && !proxy.httpsProxy && !ca) return;
+
+  // ProxyAgent takes separate TLS options for the proxy and the tunnelled connection
+  const tls = ca ? { ca } : undefined;
+  const options: EnvHttpProxyAgent.Options & Pick<ProxyAgent.Options, "requestTls" | "proxyTls"> = {
+    httpProxy: proxy.httpProxy,
+    httpsProxy: proxy.httpsProxy,
+    noProxy: proxy.noProxy ?? "",
+    connect: tls,
+    requestTls: tls,
+    proxyTls: tls,
+  };
+  setGlobalDispatcher(new EnvHttpProxyAgent(options));
+
+  if (proxy.httpsProxy) {
+    logger.info(
+      `Using proxy ${getProxyForUrl("https://proxy.invalid/", proxy)} for https requests${proxy.noProxy ? ` (except ${proxy.noProxy})` : ""}`,
+    );
+  }
+  if (ca) logger.info(`Trusting CA certificates from ${config.network.caFiles?.join(", ")}`);
+}
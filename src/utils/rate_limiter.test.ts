@@ -0,0 +1,85 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { DEFAULT_CONFIG } from "../config/settings";
+import { RateLimiter, RateLimitError } from "./rate_limiter";
+
+const CONFIG = { ...DEFAULT_CONFIG, docs: { ...DEFAULT_CONFIG.docs, rateLimit: 2 } };
+const LLMS_URL = "https://starwind.dev/llms.txt";
+
+describe("RateLimiter", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should allow the per-minute budget and then fail without waiting", async () => {
+    const limiter = new RateLimiter();
+
+    await limiter.acquire(LLMS_URL, CONFIG, 0);
+    await limiter.acquire("https://starwind.dev/docs/components/button/markdown.md", CONFIG, 0);
+
+    await expect(limiter.acquire(LLMS_URL, CONFIG, 0)).rejects.toThrow(
+      "Rate limit exceeded for starwind.dev. Please try again in 30 seconds. (Limit: 2 requests per minute)",
+    );
+  });
+
+  it("should queue until a token refills within the wait time", async () => {
+    const limiter = new RateLimiter();
+    await limiter.acquire(LLMS_URL, CONFIG, 0);
+    await limiter.acquire(LLMS_URL, CONFIG, 0);
+
+    let acquired = false;
+    const pending = limiter.acquire(LLMS_URL, CONFIG, 60_000).then(() => (acquired = true));
+    expect(limiter.status(LLMS_URL, CONFIG).queued).toBe(1);
+
+    await vi.advanceTimersByTimeAsync(29_000);
+    expect(acquired).toBe(false);
+    await vi.advanceTimersByTimeAsync(1_000);
+    await pending;
+
+    expect(acquired).toBe(true);
+    expect(limiter.status(LLMS_URL, CONFIG).queued).toBe(0);
+  });
+
+  it("should fail queued requests whose token won't arrive in time", async () => {
+    const limiter = new RateLimiter();
+    await limiter.acquire(LLMS_URL, CONFIG, 0);
+    await limiter.acquire(LLMS_URL, CONFIG, 0);
+
+    const error = await limiter.acquire(LLMS_URL, CONFIG, 1_000).catch((e) => e);
+
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.host).toBe("starwind.dev");
+    expect(error.retryAfterSeconds).toBe(30);
+  });
+
+  it("should report remaining requests and refill time", async () => {
+    const limiter = new RateLimiter();
+    await limiter.acquire(LLMS_URL, CONFIG, 0);
+
+    expect(limiter.status(LLMS_URL, CONFIG)).toEqual({
+      host: "starwind.dev",
+      limit: 2,
+      remaining: 1,
+      resetAfterSeconds: 30,
+      queued: 0,
+    });
+
+    vi.advanceTimersByTime(30_000);
+    expect(limiter.status(LLMS_URL, CONFIG).remaining).toBe(2);
+  });
+
+  it("should start a fresh bucket when the configured limit changes", async () => {
+    const limiter = new RateLimiter();
+    await limiter.acquire(LLMS_URL, CONFIG, 0);
+    await limiter.acquire(LLMS_URL, CONFIG, 0);
+
+    const raised = { ...CONFIG, docs: { ...CONFIG.docs, rateLimit: 5 } };
+
+    await expect(limiter.acquire(LLMS_URL, raised, 0)).resolves.toBeUndefined();
+    expect(limiter.status(LLMS_URL, raised).remaining).toBe(4);
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * Rate Limiter
+ * Per-host token buckets shared by every tool, so all requests to starwind.dev draw from one
+ * budget whether they come from the docs, add or completion code.
+ */
+import type { Config } from "../config/settings.js";
+
+// Budgets are configured as requests per minute
+const WINDOW_MS = 60 * 1000;
+
+/**
+ * Thrown when no request token becomes available within the queue timeout
+ */
+export class RateLimitError extends Error {
+  constructor(
+    message: string,
+    readonly host: string,
+    readonly retryAfterSeconds: number,
+  ) {
+    super(message);
+    this.name = "RateLimitError";
+  }
+}
+
+/**
+ * Rate limit state of a single host
+ */
+export interface RateLimitStatus {
+  host: string;
+  /** Requests per minute */
+  limit: number;
+  /** Requests that can be made right now */
+  remaining: number;
+  /** Seconds until the bucket is full again */
+  resetAfterSeconds: number;
+  /** Requests waiting for a token */
+  queued: number;
+}
+
+/**
+ * Token bucket refilled continuously at `limit` tokens per minute
+ */
+class TokenBucket {
+  private tokens: number;
+  private updatedAt: number = Date.now();
+  queued = 0;
+
+  constructor(readonly limit: number) {
+    this.tokens = limit;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(
+      this.limit,
+      this.tokens + ((now - this.updatedAt) * this.limit) / WINDOW_MS,
+    );
+    this.updatedAt = now;
+  }
+
+  tryTake(): boolean {
+    this.refill();
+    if (this.tokens < 1) return false;
+    this.tokens -= 1;
+    return true;
+  }
+
+  remaining(): number {
+    this.refill();
+    return Math.floor(this.tokens);
+  }
+
+  msUntilToken(): number {
+    this.refill();
+    return this.tokens >= 1 ? 0 : Math.ceil(((1 - this.tokens) * WINDOW_MS) / this.limit);
+  }
+
+  msUntilFull(): number {
+    this.refill();
+    return Math.ceil(((this.limit - this.tokens) * WINDOW_MS) / this.limit);
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function hostOf(url: string): string {
+  return new URL(url).host;
+}
+
+/**
+ * Requests per minute allowed for a host
+ * The Pro manifest host uses `pro.rateLimit`, every other host (the docs site and any mirror)
+ * uses `docs.rateLimit`. If both point at the same host the lower budget applies.
+ */
+function limitFor(host: string, config: Config): number {
+  const limits: number[] = [];
+  if (host === hostOf(config.docs.baseUrl)) limits.push(config.docs.rateLimit);
+  if (host === hostOf(config.pro.manifestUrl)) limits.push(config.pro.rateLimit);
+  return limits.length > 0 ? Math.min(...limits) : config.docs.rateLimit;
+}
+
+/**
+ * Per-host rate limiter
+ *
+ * Each host gets a token bucket holding up to its per-minute budget. A request takes a token,
+ * waiting up to `maxWaitMs` for the bucket to refill before failing with a RateLimitError.
+ * Buckets are recreated when the configured budget for their host changes.
+ */
+export class RateLimiter {
+  private buckets: Map<string, TokenBucket> = new Map();
+
+  private bucketFor(host: string, config: Config): TokenBucket {
+    const limit = limitFor(host, config);
+    let bucket = this.buckets.get(host);
+    if (!bucket || bucket.limit !== limit) {
+      bucket = new TokenBucket(limit);
+      this.buckets.set(host, bucket);
+    }
+    return bucket;
+  }
+
+  /**
+   * Take a request token for a URL's host
+   *
+   * @param url - The URL about to be requested
+   * @param config - Configuration holding the budgets
+   * @param maxWaitMs - How long to queue for a token (0 fails immediately)
+   * @throws {RateLimitError} If no token becomes available in time
+   */
+  async acquire(url: string, config: Config, maxWaitMs: number): Promise<void> {
+    const host = hostOf(url);
+    const bucket = this.bucketFor(host, config);
+    const deadline = Date.now() + maxWaitMs;
+
+    bucket.queued++;
+    try {
+      while (!bucket.tryTake()) {
+        const wait = bucket.msUntilToken();
+        if (Date.now() + wait > deadline) {
+          const retryAfterSeconds = Math.ceil(wait / 1000);
+          throw new RateLimitError(
+            `Rate limit exceeded for ${host}. Please try again in ${retryAfterSeconds} seconds. (Limit: ${bucket.limit} requests per minute)`,
+            host,
+            retryAfterSeconds,
+          );
+        }
+        await sleep(wait);
+      }
+    } finally {
+      bucket.queued--;
+    }
+  }
+
+  /**
+   * Current state of the bucket for a URL's host
+   */
+  status(url: string, config: Config): RateLimitStatus {
+    const host = hostOf(url);
+    const bucket = this.bucketFor(host, config);
+    return {
+      host,
+      limit: bucket.limit,
+      remaining: bucket.remaining(),
+      resetAfterSeconds: Math.ceil(bucket.msUntilFull() / 1000),
+      queued: bucket.queued,
+    };
+  }
+
+  /**
+   * State of the configured docs and Pro hosts, plus any other host requested so far
+   */
+  statusAll(config: Config): RateLimitStatus[] {
+    const hosts = new Set([
+      hostOf(config.docs.baseUrl),
+      hostOf(config.pro.manifestUrl),
+      ...this.buckets.keys(),
+    ]);
+    return [...hosts].map((host) => this.status(`https://${host}/`, config));
+  }
+
+  /**
+   * Forget all buckets (for testing purposes)
+   */
+  reset(): void {
+    this.buckets.clear();
+  }
+}
@@ -0,0 +1,266 @@
+import { mkdtemp, readdir, readFile, rm, utimes, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { DEFAULT_CONFIG } from "../config/settings";
+import { RateLimiter, RateLimitError } from "./rate_limiter";
+import {
+  type CachedResponse,
+  DiskResponseCache,
+  fetchCached,
+  getNetworkStatus,
+  MemoryResponseCache,
+  resolveCacheDir,
+  type ResponseCache,
+} from "./response_cache";
+
+const URL = "https://starwind.dev/llms.txt";
+
+function entry(url: string, body: string, fetchedAt: number = Date.now()): CachedResponse {
+  return { url, body, headers: { etag: '"v1"' }, fetchedAt };
+}
+
+describe("DiskResponseCache", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "starwind-mcp-cache-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should persist entries across instances", async () => {
+    await new DiskResponseCache(dir, 1024 * 1024).set(entry(URL, "# Starwind"));
+
+    const cached = await new DiskResponseCache(dir, 1024 * 1024).get(URL);
+
+    expect(cached?.body).toBe("# Starwind");
+    expect(cached?.headers.etag).toBe('"v1"');
+    expect(await new DiskResponseCache(dir, 1024 * 1024).get(`${URL}?other`)).toBeUndefined();
+  });
+
+  it("should evict the least recently used entries beyond the size limit", async () => {
+    const cache = new DiskResponseCache(dir, 2500);
+    const body = "x".repeat(1000);
+    await cache.set(entry("https://a.test/", body));
+    await cache.set(entry("https://b.test/", body));
+    // Make a the oldest file, then read it so b becomes the least recently used
+    const past = new Date(Date.now() - 60_000);
+    for (const name of await readdir(dir)) await utimes(join(dir, name), past, past);
+    await cache.get("https://a.test/");
+
+    await cache.set(entry("https://c.test/", body));
+
+    expect(await cache.get("https://a.test/")).toBeDefined();
+    expect(await cache.get("https://b.test/")).toBeUndefined();
+    expect(await cache.get("https://c.test/")).toBeDefined();
+  });
+
+  it("should treat a corrupt entry as a miss and remove it", async () => {
+    const cache = new DiskResponseCache(dir, 1024 * 1024);
+    await cache.set(entry(URL, "# Starwind"));
+    const [name] = await readdir(dir);
+    await writeFile(join(dir, name), "{ not json");
+
+    expect(await cache.get(URL)).toBeUndefined();
+    expect(await readdir(dir)).toEqual([]);
+  });
+
+  it("should leave a complete entry after concurrent writes", async () => {
+    const caches = [1, 2, 3, 4].map(() => new DiskResponseCache(dir, 1024 * 1024));
+
+    await Promise.all(caches.map((cache, i) => cache.set(entry(URL, `body ${i}`))));
+
+    const names = await readdir(dir);
+    expect(names).toHaveLength(1);
+    const stored = JSON.parse(await readFile(join(dir, names[0]), "utf8"));
+    expect(stored.body).toMatch(/^body \d$/);
+  });
+});
+
+describe("resolveCacheDir", () => {
+  it("should follow platform conventions", () => {
+    expect(resolveCacheDir({}, "linux", "/home/me")).toBe("/home/me/.cache/starwind-mcp");
+    expect(resolveCacheDir({ XDG_CACHE_HOME: "/xdg" }, "linux", "/home/me")).toBe(
+      "/xdg/starwind-mcp",
+    );
+    expect(resolveCacheDir({}, "darwin", "/Users/me")).toBe(
+      "/Users/me/Library/Caches/starwind-mcp",
+    );
+    expect(resolveCacheDir({ LOCALAPPDATA: "/appdata" }, "win32", "/home/me")).toBe(
+      join("/appdata", "starwind-mcp", "Cache"),
+    );
+  });
+});
+
+describe("fetchCached", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  /** Context with an in-memory cache and a docs budget of one request per minute */
+  function createContext(cache: ResponseCache = new MemoryResponseCache()) {
+    const config = {
+      ...DEFAULT_CONFIG,
+      network: { ...DEFAULT_CONFIG.network, rateLimitQueueMs: 0 },
+      docs: { ...DEFAULT_CONFIG.docs, rateLimit: 1 },
+    };
+    return { config, cache, limiter: new RateLimiter() };
+  }
+
+  it("should serve fresh entries without a request", async () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal("fetch", fetchMock);
+    const context = createContext();
+    await context.cache.set(entry(URL, "# Cached"));
+
+    const result = await fetchCached(URL, { ttlSeconds: 60 }, context);
+
+    expect(result.body).toBe("# Cached");
+    expect(result.source).toBe("cache");
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(context.limiter.status(URL, context.config).remaining).toBe(1);
+  });
+
+  it("should return expired entries as stale and revalidate them in the background", async () => {
+    const fetchMock = vi.fn(async () => new Response(null, { status: 304 }));
+    vi.stubGlobal("fetch", fetchMock);
+    const context = createContext();
+    const expiredAt = Date.now() - 120_000;
+    await context.cache.set(entry(URL, "# Cached", expiredAt));
+
+    const result = await fetchCached(URL, { ttlSeconds: 60 }, context);
+
+    expect(result).toEqual({
+      body: "# Cached",
+      source: "cache",
+      fetchedAt: expiredAt,
+      stale: true,
+    });
+    // The 304 restarts the TTL
+    await vi.waitFor(async () =>
+      expect((await context.cache.get(URL))?.fetchedAt).toBeGreaterThan(expiredAt),
+    );
+    expect((fetchMock.mock.calls[0] as unknown[])[1]).toMatchObject({
+      headers: { "If-None-Match": '"v1"' },
+    });
+    expect((await context.cache.get(URL))?.body).toBe("# Cached");
+  });
+
+  it("should revalidate fresh entries when asked to refresh", async () => {
+    const fetchMock = vi.fn(async () => new Response("# Fresh"));
+    vi.stubGlobal("fetch", fetchMock);
+    const context = createContext();
+    await context.cache.set(entry(URL, "# Cached"));
+
+    const result = await fetchCached(URL, { ttlSeconds: 60, refresh: true }, context);
+
+    expect(result).toMatchObject({ body: "# Fresh", source: "network" });
+    expect((fetchMock.mock.calls[0] as unknown[])[1]).toMatchObject({
+      headers: { "If-None-Match": '"v1"' },
+    });
+    expect((await context.cache.get(URL))?.body).toBe("# Fresh");
+  });
+
+  it("should serve stale entries when the host's rate limit is exhausted", async () => {
+    const fetchMock = vi.fn(async () => new Response("# Fresh"));
+    vi.stubGlobal("fetch", fetchMock);
+    const context = createContext();
+    // Use up the docs host budget on another URL
+    await fetchCached("https://starwind.dev/llms-full.txt", { ttlSeconds: 60 }, context);
+    await context.cache.set(entry(URL, "# Cached", Date.now() - 120_000));
+
+    const result = await fetchCached(URL, { ttlSeconds: 60 }, context);
+
+    expect(result.body).toBe("# Cached");
+    expect(result.stale).toBe(true);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("should share one budget across URLs on the same host", async () => {
+    const fetchMock = vi.fn(async () => new Response("# Fresh"));
+    vi.stubGlobal("fetch", fetchMock);
+    const context = createContext();
+
+    await fetchCached(URL, { ttlSeconds: 60 }, context);
+
+    await expect(
+      fetchCached("https://starwind.dev/llms-full.txt", { ttlSeconds: 60 }, context),
+    ).rejects.toThrow(RateLimitError);
+    // The Pro manifest host has its own budget
+    await fetchCached(DEFAULT_CONFIG.pro.manifestUrl, { ttlSeconds: 60 }, context);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("should share one request between concurrent callers", async () => {
+    let respond: (response: Response) => void = () => {};
+    const fetchMock = vi
+      .fn()
+      .mockReturnValueOnce(new Promise<Response>((resolve) => (respond = resolve)));
+    vi.stubGlobal("fetch", fetchMock);
+    const context = createContext();
+    context.config.docs = { ...context.config.docs, rateLimit: 5 };
+
+    const requests = [1, 2, 3].map(() => fetchCached(URL, { ttlSeconds: 0 }, context));
+    await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(1));
+    respond(new Response("# Fresh"));
+    const results = await Promise.all(requests);
+
+    expect(results.map((result) => result.body)).toEqual(["# Fresh", "# Fresh", "# Fresh"]);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(context.limiter.status(URL, context.config).remaining).toBe(4);
+  });
+
+  it("should serve the offline snapshot without touching the network or cache", async () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal("fetch", fetchMock);
+    const dir = await mkdtemp(join(tmpdir(), "starwind-mcp-offline-"));
+    const snapshot = join(dir, "snapshot.json");
+    await writeFile(
+      snapshot,
+      JSON.stringify({ createdAt: "2026-10-01T00:00:00.000Z", documents: { [URL]: "# Offline" } }),
+    );
+    const context = createContext();
+    context.config.offline = { enabled: true, snapshot };
+
+    try {
+      const result = await fetchCached(URL, { ttlSeconds: 60 }, context);
+
+      expect(result).toMatchObject({
+        body: "# Offline",
+        source: "snapshot",
+        snapshotDate: "2026-10-01T00:00:00.000Z",
+      });
+      await expect(fetchCached(`${URL}?missing`, { ttlSeconds: 60 }, context)).rejects.toThrow(
+        "is not in the offline snapshot",
+      );
+      expect(fetchMock).not.toHaveBeenCalled();
+      expect(await context.cache.get(URL)).toBeUndefined();
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("getNetworkStatus", () => {
+  it("should report cache size and rate limits per host", async () => {
+    const cache = new MemoryResponseCache();
+    await cache.set(entry(URL, "12345"));
+
+    const status = await getNetworkStatus({
+      config: DEFAULT_CONFIG,
+      cache,
+      limiter: new RateLimiter(),
+    });
+
+    expect(status.offline).toBe(false);
+    expect(status.cache).toEqual({ entries: 1, bytes: 5, dir: undefined });
+    expect(status.rateLimits.map(({ host, limit }) => ({ host, limit }))).toEqual([
+      { host: "starwind.dev", limit: DEFAULT_CONFIG.docs.rateLimit },
+      { host: "pro.starwind.dev", limit: DEFAULT_CONFIG.pro.rateLimit },
+    ]);
+  });
+});
@@ -0,0 +1,399 @@
+/**
+ * Response Cache
+ * URL-keyed cache of fetched documents shared by all tools. The disk-backed implementation
+ * lives in the user cache directory, so cached docs and manifests survive server restarts.
+ */
+import { createHash, randomUUID } from "crypto";
+import { mkdir, readdir, readFile, rename, rm, stat, unlink, utimes, writeFile } from "fs/promises";
+import { homedir } from "os";
+import { join } from "path";
+
+import type { Config } from "../config/settings.js";
+import { type CacheValidators, fetchText, HttpError } from "./http_client.js";
+import { logger } from "./logger.js";
+import type { RateLimiter, RateLimitStatus } from "./rate_limiter.js";
+import { getSnapshotPath, loadSnapshot } from "./snapshot.js";
+
+/**
+ * A cached response
+ */
+export interface CachedResponse {
+  url: string;
+  body: string;
+  /** Response headers needed to revalidate the body */
+  headers: CacheValidators;
+  /** When the body was fetched or last revalidated (ms since epoch) */
+  fetchedAt: number;
+}
+
+/**
+ * Size of a response cache
+ */
+export interface CacheStats {
+  entries: number;
+  bytes: number;
+}
+
+/**
+ * Storage for cached responses
+ */
+export interface ResponseCache {
+  get(url: string): Promise<CachedResponse | undefined>;
+  set(entry: CachedResponse): Promise<void>;
+  clear(): Promise<void>;
+  stats(): Promise<CacheStats>;
+}
+
+/**
+ * In-memory response cache, used when the disk cache is disabled and in tests
+ */
+export class MemoryResponseCache implements ResponseCache {
+  private entries: Map<string, CachedResponse> = new Map();
+
+  async get(url: string): Promise<CachedResponse | undefined> {
+    return this.entries.get(url);
+  }
+
+  async set(entry: CachedResponse): Promise<void> {
+    this.entries.set(entry.url, entry);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+
+  async stats(): Promise<CacheStats> {
+    let bytes = 0;
+    for (const entry of this.entries.values()) bytes += Buffer.byteLength(entry.body);
+    return { entries: this.entries.size, bytes };
+  }
+}
+
+// Temp files older than this are left over from a crashed write and can be removed
+const STALE_TEMP_FILE_MS = 60 * 1000;
+
+/**
+ * Disk-backed response cache with LRU eviction
+ *
+ * Each URL is stored as its own JSON file, named by the hash of the URL. Writes go to a
+ * unique temp file that is renamed into place, so concurrent server processes never see a
+ * partially written entry (the last writer wins). Reads bump the file's mtime, and once the
+ * directory exceeds `maxBytes` the least recently used files are deleted.
+ */
+export class DiskResponseCache implements ResponseCache {
+  constructor(
+    readonly dir: string,
+    private readonly maxBytes: number,
+  ) {}
+
+  private fileFor(url: string): string {
+    return join(this.dir, `${createHash("sha256").update(url).digest("hex")}.json`);
+  }
+
+  async get(url: string): Promise<CachedResponse | undefined> {
+    const file = this.fileFor(url);
+    let entry: CachedResponse;
+    try {
+      entry = JSON.parse(await readFile(file, "utf8"));
+    } catch (error: any) {
+      if (error.code !== "ENOENT") {
+        // Corrupt or unreadable entry, treat it as a miss
+        logger.debug(`Discarding unreadable cache entry ${file}: ${error.message}`);
+        await unlink(file).catch(() => {});
+      }
+      return undefined;
+    }
+    if (entry.url !== url) return undefined;
+
+    // Mark as recently used for LRU eviction
+    const now = new Date();
+    await utimes(file, now, now).catch(() => {});
+    return entry;
+  }
+
+  async set(entry: CachedResponse): Promise<void> {
+    const file = this.fileFor(entry.url);
+    const temp = `${file}.${process.pid}.${randomUUID()}.tmp`;
+    try {
+      await mkdir(this.dir, { recursive: true });
+      await writeFile(temp, JSON.stringify(entry));
+      await rename(temp, file);
+    } catch (error: any) {
+      // A read-only or full disk shouldn't break tool calls
+      logger.warning(`Failed to write cache entry for ${entry.url}: ${error.message}`);
+      await unlink(temp).catch(() => {});
+      return;
+    }
+    await this.evict();
+  }
+
+  async clear(): Promise<void> {
+    await rm(this.dir, { recursive: true, force: true });
+  }
+
+  async stats(): Promise<CacheStats> {
+    const files = await this.scan();
+    return { entries: files.length, bytes: files.reduce((sum, file) => sum + file.size, 0) };
+  }
+
+  /**
+   * List the cache entry files, deleting temp files left over from crashed writes
+   */
+  private async scan(): Promise<{ path: string; size: number; mtime: number }[]> {
+    let names: string[];
+    try {
+      names = await readdir(this.dir);
+    } catch {
+      return [];
+    }
+
+    const now = Date.now();
+    const files: { path: string; size: number; mtime: number }[] = [];
+    for (const name of names) {
+      const path = join(this.dir, name);
+      // Another process may delete files while we scan, so ignore missing ones
+      const info = await stat(path).catch(() => undefined);
+      if (!info) continue;
+      if (name.endsWith(".tmp")) {
+        if (now - info.mtimeMs > STALE_TEMP_FILE_MS) await unlink(path).catch(() => {});
+      } else if (name.endsWith(".json")) {
+        files.push({ path, size: info.size, mtime: info.mtimeMs });
+      }
+    }
+    return files;
+  }
+
+  /**
+   * Delete least recently used entries until the cache fits in maxBytes
+   */
+  private async evict(): Promise<void> {
+    const files = await this.scan();
+
+    let total = files.reduce((sum, file) => sum + file.size, 0);
+    files.sort((a, b) => a.mtime - b.mtime);
+    for (const file of files) {
+      if (total <= this.maxBytes) break;
+      await unlink(file.path).catch(() => {});
+      total -= file.size;
+      logger.debug(`Evicted ${file.path} from the response cache`);
+    }
+  }
+}
+
+/**
+ * Default cache directory for the platform
+ * `$XDG_CACHE_HOME/starwind-mcp` (or `~/.cache/starwind-mcp`) on Linux,
+ * `~/Library/Caches/starwind-mcp` on macOS and `%LOCALAPPDATA%\starwind-mcp\Cache` on Windows.
+ */
+export function resolveCacheDir(
+  env: Record<string, string | undefined> = process.env,
+  platform: NodeJS.Platform = process.platform,
+  home: string = homedir(),
+): string {
+  if (platform === "win32") {
+    return join(env.LOCALAPPDATA || join(home, "AppData", "Local"), "starwind-mcp", "Cache");
+  }
+  if (platform === "darwin") {
+    return join(home, "Library", "Caches", "starwind-mcp");
+  }
+  return join(env.XDG_CACHE_HOME || join(home, ".cache"), "starwind-mcp");
+}
+
+/**
+ * Create the response cache selected by the configuration
+ */
+export function createResponseCache(config: Config): ResponseCache {
+  if (!config.cache.enabled) return new MemoryResponseCache();
+  const dir = join(config.cache.dir ?? resolveCacheDir(), "responses");
+  return new DiskResponseCache(dir, config.cache.maxSizeMb * 1024 * 1024);
+}
+
+/**
+ * State shared by every fetch: configuration, the response cache and the host rate limits
+ */
+export interface NetworkContext {
+  config: Config;
+  cache: ResponseCache;
+  limiter: RateLimiter;
+}
+
+/**
+ * Options for a cached fetch
+ */
+export interface FetchCachedOptions {
+  /** How long a cached body is served without contacting the server */
+  ttlSeconds: number;
+  /** Revalidate with the server now, even if the cached body is still fresh */
+  refresh?: boolean;
+}
+
+/**
+ * Result of a cached fetch
+ */
+export interface FetchCachedResult {
+  body: string;
+  source: "cache" | "network" | "snapshot";
+  /** When the body was fetched or last revalidated (ms since epoch) */
+  fetchedAt: number;
+  /** Set when the TTL has passed and the body is being refreshed in the background */
+  stale?: boolean;
+  /** When the offline snapshot was taken, for snapshot results */
+  snapshotDate?: string;
+}
+
+/**
+ * Serve a URL from the offline snapshot
+ */
+function fetchFromSnapshot(url: string, config: Config): FetchCachedResult {
+  const snapshot = loadSnapshot(getSnapshotPath(config));
+  const body = snapshot.documents[url];
+  if (body === undefined) {
+    throw new HttpError(`${url} is not in the offline snapshot`, url, "offline");
+  }
+  return {
+    body,
+    source: "snapshot",
+    fetchedAt: Date.parse(snapshot.createdAt),
+    snapshotDate: snapshot.createdAt,
+  };
+}
+
+// Requests in flight per cache and URL, so concurrent callers (including background refreshes)
+// share one download and one rate limit token
+const inFlight: WeakMap<ResponseCache, Map<string, Promise<FetchCachedResult>>> = new WeakMap();
+
+function inFlightRequests(cache: ResponseCache): Map<string, Promise<FetchCachedResult>> {
+  let requests = inFlight.get(cache);
+  if (!requests) {
+    requests = new Map();
+    inFlight.set(cache, requests);
+  }
+  return requests;
+}
+
+/**
+ * Start a request for a URL, or join the one already in flight for the same cache
+ */
+function singleFlight(
+  url: string,
+  context: NetworkContext,
+  request: () => Promise<FetchCachedResult>,
+): Promise<FetchCachedResult> {
+  const requests = inFlightRequests(context.cache);
+  const pending = requests.get(url);
+  if (pending) return pending;
+
+  const started = request().finally(() => requests.delete(url));
+  requests.set(url, started);
+  return started;
+}
+
+/**
+ * Fetch a URL and store the response, revalidating `cached` if given
+ * Waits up to `maxWaitMs` for the host's rate limit.
+ */
+async function fetchAndStore(
+  url: string,
+  cached: CachedResponse | undefined,
+  context: NetworkContext,
+  maxWaitMs: number,
+): Promise<FetchCachedResult> {
+  const { config, cache, limiter } = context;
+  await limiter.acquire(url, config, maxWaitMs);
+  const result = await fetchText(url, { ...config.network, validators: cached?.headers });
+
+  // A 304 is only possible when validators from a cached entry were sent
+  const fetchedAt = Date.now();
+  const entry: CachedResponse = result.notModified
+    ? { ...(cached as CachedResponse), headers: result.validators, fetchedAt }
+    : { url, body: result.body, headers: result.validators, fetchedAt };
+  await cache.set(entry);
+
+  return { body: entry.body, source: "network", fetchedAt };
+}
+
+/**
+ * Refresh an expired entry without blocking the caller
+ * A background refresh never waits for the rate limit, so it can't hold up foreground requests.
+ * Failures keep the stale entry for the next call to retry.
+ */
+function revalidateInBackground(cached: CachedResponse, context: NetworkContext): void {
+  const { url } = cached;
+  if (inFlightRequests(context.cache).has(url)) return;
+
+  singleFlight(url, context, () => fetchAndStore(url, cached, context, 0)).catch((error: any) =>
+    logger.debug(`Background refresh of ${url} failed: ${error.message}`),
+  );
+}
+
+/**
+ * Fetch a URL through the response cache
+ *
+ * A cached body younger than the TTL is returned as is. An older one is still returned
+ * immediately, marked `stale`, while it is refreshed in the background, sending the cached
+ * validators so an unchanged document costs a 304 (which restarts its TTL). Only a URL that has
+ * never been fetched waits for the network, queueing briefly if its host's rate limit is
+ * exhausted, as does a `refresh`, which still sends the cached validators. Concurrent calls for
+ * the same URL share a single request. In offline mode the body comes from the snapshot instead
+ * and the cache is bypassed.
+ *
+ * @param url - The URL to fetch
+ * @param options - How long the cached body stays fresh, and whether to refresh it now
+ * @param context - Configuration, cache and rate limits to use
+ * @throws {HttpError} If the request fails, or the URL isn't in the offline snapshot
+ * @throws {RateLimitError} If the host's rate limit stays exhausted for `network.rateLimitQueueMs`
+ * @throws {SnapshotError} If offline and the snapshot can't be read
+ */
+export async function fetchCached(
+  url: string,
+  options: FetchCachedOptions,
+  context: NetworkContext,
+): Promise<FetchCachedResult> {
+  const { config, cache } = context;
+  if (config.offline.enabled) return fetchFromSnapshot(url, config);
+
+  const cached = await cache.get(url);
+  if (!cached || options.refresh) {
+    return singleFlight(url, context, () =>
+      fetchAndStore(url, cached, context, config.network.rateLimitQueueMs),
+    );
+  }
+
+  const result: FetchCachedResult = {
+    body: cached.body,
+    source: "cache",
+    fetchedAt: cached.fetchedAt,
+  };
+  if (Date.now() >= cached.fetchedAt + options.ttlSeconds * 1000) {
+    revalidateInBackground(cached, context);
+    result.stale = true;
+  }
+  return result;
+}
+
+/**
+ * Snapshot of the cache and rate limits, for status reporting
+ */
+export interface NetworkStatus {
+  offline: boolean;
+  cache: CacheStats & {
+    /** Where entries are persisted, unset for an in-memory cache */
+    dir?: string;
+  };
+  rateLimits: RateLimitStatus[];
+}
+
+/**
+ * Describe the current cache contents and rate limit budgets
+ */
+export async function getNetworkStatus(context: NetworkContext): Promise<NetworkStatus> {
+  const { config, cache, limiter } = context;
+  return {
+    offline: config.offline.enabled,
+    cache: {
+      ...(await cache.stats()),
+      dir: cache instanceof DiskResponseCache ? cache.dir : undefined,
+    },
+    rateLimits: limiter.statusAll(config),
+  };
+}
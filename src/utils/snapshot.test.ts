@@ -0,0 +1,45 @@
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { loadSnapshot, SnapshotError } from "./snapshot";
+
+describe("loadSnapshot", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "starwind-mcp-snapshot-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should read the snapshot date and documents", () => {
+    const path = join(dir, "snapshot.json");
+    writeFileSync(
+      path,
+      JSON.stringify({
+        createdAt: "2026-10-01T00:00:00.000Z",
+        documents: { "https://starwind.dev/llms.txt": "# Starwind" },
+      }),
+    );
+
+    const snapshot = loadSnapshot(path);
+
+    expect(snapshot.createdAt).toBe("2026-10-01T00:00:00.000Z");
+    expect(snapshot.documents["https://starwind.dev/llms.txt"]).toBe("# Starwind");
+  });
+
+  it("should explain how to build a missing snapshot", () => {
+    expect(() => loadSnapshot(join(dir, "missing.json"))).toThrow(/pnpm build:snapshot/);
+  });
+
+  it("should reject files that aren't snapshots", () => {
+    const path = join(dir, "manifest.json");
+    writeFileSync(path, JSON.stringify({ blocks: [] }));
+
+    expect(() => loadSnapshot(path)).toThrow(SnapshotError);
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Offline Snapshot
+ * A dated copy of llms.txt, llms-full.txt, the docs pages and the Pro manifest, bundled with the
+ * package by `pnpm build:snapshot` so the server can run without network access.
+ */
+import { readFileSync } from "fs";
+import { resolve } from "path";
+import { fileURLToPath } from "url";
+
+import type { Config } from "../config/settings.js";
+
+/**
+ * Snapshot file contents
+ */
+export interface Snapshot {
+  /** When the snapshot was taken (ISO 8601) */
+  createdAt: string;
+  /** Document bodies keyed by the URL they were fetched from */
+  documents: Record<string, string>;
+}
+
+/**
+ * Where the build step writes the snapshot, next to the compiled server in dist/
+ */
+export const DEFAULT_SNAPSHOT_PATH = fileURLToPath(new URL("../snapshot.json", import.meta.url));
+
+/**
+ * Thrown when the snapshot can't be read or is malformed
+ */
+export class SnapshotError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SnapshotError";
+  }
+}
+
+const snapshots: Map<string, Snapshot> = new Map();
+
+/**
+ * Path of the snapshot selected by the configuration
+ */
+export function getSnapshotPath(config: Config): string {
+  return resolve(config.offline.snapshot ?? DEFAULT_SNAPSHOT_PATH);
+}
+
+/**
+ * Read a snapshot file, once per path
+ *
+ * @param path - The snapshot file
+ * @throws {SnapshotError} If the file is missing or isn't a snapshot
+ */
+export function loadSnapshot(path: string): Snapshot {
+  const loaded = snapshots.get(path);
+  if (loaded) return loaded;
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(readFileSync(path, "utf8"));
+  } catch (error: any) {
+    if (error.code === "ENOENT") {
+      throw new SnapshotError(
+        `Offline snapshot not found at ${path}. Build one with \`pnpm build:snapshot\` or pass --snapshot <path>`,
+      );
+    }
+    throw new SnapshotError(`Failed to read offline snapshot ${path}: ${error.message}`);
+  }
+
+  if (
+    typeof parsed?.createdAt !== "string" ||
+    isNaN(Date.parse(parsed.createdAt)) ||
+    typeof parsed.documents !== "object" ||
+    parsed.documents === null
+  ) {
+    throw new SnapshotError(`${path} is not a valid offline snapshot`);
+  }
+
+  const snapshot: Snapshot = { createdAt: parsed.createdAt, documents: parsed.documents };
+  snapshots.set(path, snapshot);
+  return snapshot;
+}